@@ -5,29 +5,52 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Github, Upload, Save, Check } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_GITLAB_URL } from '@/lib/gitlab';
 
 interface AuthPanelProps {
   githubToken: string;
   setGithubToken: (token: string) => void;
   huggingfaceToken: string;
   setHuggingfaceToken: (token: string) => void;
+  gitlabToken: string;
+  setGitlabToken: (token: string) => void;
+  gitlabUrl: string;
+  setGitlabUrl: (url: string) => void;
+  giteaToken: string;
+  setGiteaToken: (token: string) => void;
+  giteaUrl: string;
+  setGiteaUrl: (url: string) => void;
 }
 
 export const AuthPanel = ({ 
   githubToken, 
   setGithubToken, 
   huggingfaceToken, 
-  setHuggingfaceToken 
+  setHuggingfaceToken,
+  gitlabToken,
+  setGitlabToken,
+  gitlabUrl,
+  setGitlabUrl,
+  giteaToken,
+  setGiteaToken,
+  giteaUrl,
+  setGiteaUrl
 }: AuthPanelProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [githubSaved, setGithubSaved] = useState(false);
   const [hfSaved, setHfSaved] = useState(false);
+  const [gitlabSaved, setGitlabSaved] = useState(false);
+  const [giteaSaved, setGiteaSaved] = useState(false);
   const { toast } = useToast();
 
   // Load saved tokens on component mount
   useEffect(() => {
     const savedGithubToken = localStorage.getItem('github_token');
     const savedHfToken = localStorage.getItem('huggingface_token');
+    const savedGitlabToken = localStorage.getItem('gitlab_token');
+    const savedGitlabUrl = localStorage.getItem('gitlab_url');
+    const savedGiteaToken = localStorage.getItem('gitea_token');
+    const savedGiteaUrl = localStorage.getItem('gitea_url');
     
     if (savedGithubToken) {
       setGithubToken(savedGithubToken);
@@ -38,7 +61,25 @@ export const AuthPanel = ({
       setHuggingfaceToken(savedHfToken);
       setHfSaved(true);
     }
-  }, [setGithubToken, setHuggingfaceToken]);
+
+    if (savedGitlabUrl) {
+      setGitlabUrl(savedGitlabUrl);
+    }
+
+    if (savedGitlabToken) {
+      setGitlabToken(savedGitlabToken);
+      setGitlabSaved(true);
+    }
+
+    if (savedGiteaUrl) {
+      setGiteaUrl(savedGiteaUrl);
+    }
+
+    if (savedGiteaToken) {
+      setGiteaToken(savedGiteaToken);
+      setGiteaSaved(true);
+    }
+  }, [setGithubToken, setHuggingfaceToken, setGitlabToken, setGitlabUrl, setGiteaToken, setGiteaUrl]);
 
   const saveGithubToken = () => {
     if (githubToken.trim()) {
@@ -74,6 +115,42 @@ export const AuthPanel = ({
     }
   };
 
+  const saveGitlabToken = () => {
+    if (gitlabToken.trim()) {
+      localStorage.setItem('gitlab_token', gitlabToken);
+      localStorage.setItem('gitlab_url', gitlabUrl);
+      setGitlabSaved(true);
+      toast({
+        title: "GitLab Token Saved",
+        description: "Your GitLab token and instance URL have been saved locally",
+      });
+    } else {
+      toast({
+        title: "Empty Token",
+        description: "Please enter a token before saving",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const saveGiteaToken = () => {
+    if (giteaToken.trim() && giteaUrl.trim()) {
+      localStorage.setItem('gitea_token', giteaToken);
+      localStorage.setItem('gitea_url', giteaUrl);
+      setGiteaSaved(true);
+      toast({
+        title: "Gitea Token Saved",
+        description: "Your Gitea/Forgejo token and URL have been saved locally",
+      });
+    } else {
+      toast({
+        title: "Empty Token",
+        description: "Please enter both a URL and a token before saving",
+        variant: "destructive",
+      });
+    }
+  };
+
   const clearGithubToken = () => {
     localStorage.removeItem('github_token');
     setGithubToken('');
@@ -94,6 +171,30 @@ export const AuthPanel = ({
     });
   };
 
+  const clearGitlabToken = () => {
+    localStorage.removeItem('gitlab_token');
+    localStorage.removeItem('gitlab_url');
+    setGitlabToken('');
+    setGitlabUrl(DEFAULT_GITLAB_URL);
+    setGitlabSaved(false);
+    toast({
+      title: "GitLab Token Cleared",
+      description: "Your GitLab token has been removed",
+    });
+  };
+
+  const clearGiteaToken = () => {
+    localStorage.removeItem('gitea_token');
+    localStorage.removeItem('gitea_url');
+    setGiteaToken('');
+    setGiteaUrl('');
+    setGiteaSaved(false);
+    toast({
+      title: "Gitea Token Cleared",
+      description: "Your Gitea/Forgejo token has been removed",
+    });
+  };
+
   return (
     <div className="p-4">
       <Button
@@ -183,6 +284,102 @@ export const AuthPanel = ({
             </div>
           </div>
 
+          <div>
+            <Label htmlFor="gitlab-token" className="text-sm font-medium">
+              GitLab Token
+            </Label>
+            <Input
+              id="gitlab-url"
+              placeholder={DEFAULT_GITLAB_URL}
+              value={gitlabUrl}
+              onChange={(e) => {
+                setGitlabUrl(e.target.value);
+                setGitlabSaved(false);
+              }}
+              className="mt-1"
+            />
+            <div className="flex gap-2 mt-2">
+              <Input
+                id="gitlab-token"
+                type="password"
+                placeholder="glpat-..."
+                value={gitlabToken}
+                onChange={(e) => {
+                  setGitlabToken(e.target.value);
+                  setGitlabSaved(false);
+                }}
+                className="flex-1"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={saveGitlabToken}
+                disabled={gitlabSaved && gitlabToken.trim() !== ''}
+                className="px-3"
+              >
+                {gitlabSaved ? <Check className="h-4 w-4" /> : <Save className="h-4 w-4" />}
+              </Button>
+              {gitlabSaved && (
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={clearGitlabToken}
+                  className="px-3"
+                >
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="gitea-token" className="text-sm font-medium">
+              Gitea / Forgejo Token
+            </Label>
+            <Input
+              id="gitea-url"
+              placeholder="https://gitea.example.com"
+              value={giteaUrl}
+              onChange={(e) => {
+                setGiteaUrl(e.target.value);
+                setGiteaSaved(false);
+              }}
+              className="mt-1"
+            />
+            <div className="flex gap-2 mt-2">
+              <Input
+                id="gitea-token"
+                type="password"
+                placeholder="Access token"
+                value={giteaToken}
+                onChange={(e) => {
+                  setGiteaToken(e.target.value);
+                  setGiteaSaved(false);
+                }}
+                className="flex-1"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={saveGiteaToken}
+                disabled={giteaSaved && giteaToken.trim() !== ''}
+                className="px-3"
+              >
+                {giteaSaved ? <Check className="h-4 w-4" /> : <Save className="h-4 w-4" />}
+              </Button>
+              {giteaSaved && (
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={clearGiteaToken}
+                  className="px-3"
+                >
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+
           <div className="text-xs text-gray-500">
             Tokens are stored locally in your browser
           </div>
@@ -1,16 +1,39 @@
 
 import { useState, useEffect } from 'react';
 import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
 import { FileNode } from '@/pages/Index';
-import { File } from 'lucide-react';
+import { File, FileImage, Undo2, Redo2, Eye, EyeOff } from 'lucide-react';
+import { contentByteLength, isBinaryFile } from '@/lib/fileTree';
+import { formatBytes } from '@/lib/utils';
+import { TemplateValues, hasPlaceholders, resolvePlaceholders } from '@/lib/templateVariables';
 
 interface CodeEditorProps {
   selectedFile: FileNode | null;
   updateFileContent: (fileId: string, content: string) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  templateValues: TemplateValues;
+  setTemplated: (fileId: string, templated: boolean) => void;
 }
 
-export const CodeEditor = ({ selectedFile, updateFileContent }: CodeEditorProps) => {
+// Placeholders are only filled in for nodes that opt in, so other template languages are left alone
+const PlaceholderToggle = ({ node, setTemplated }: { node: FileNode; setTemplated: CodeEditorProps['setTemplated'] }) => (
+  <label className="flex items-center space-x-1 text-xs text-gray-600" title="Fill in {{project_name}}-style placeholders on export">
+    <input
+      type="checkbox"
+      checked={!!node.templated}
+      onChange={(e) => setTemplated(node.id, e.target.checked)}
+    />
+    <span>Fill in placeholders</span>
+  </label>
+);
+
+export const CodeEditor = ({ selectedFile, updateFileContent, canUndo, canRedo, onUndo, onRedo, templateValues, setTemplated }: CodeEditorProps) => {
   const [content, setContent] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
 
   useEffect(() => {
     if (selectedFile) {
@@ -25,6 +48,18 @@ export const CodeEditor = ({ selectedFile, updateFileContent }: CodeEditorProps)
     }
   };
 
+  // Text edits have their own per-file history instead of the browser's textarea undo
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const key = e.key.toLowerCase();
+    if (!(e.ctrlKey || e.metaKey) || (key !== 'z' && key !== 'y')) return;
+    e.preventDefault();
+    if (e.shiftKey || key === 'y') {
+      onRedo();
+    } else {
+      onUndo();
+    }
+  };
+
   if (!selectedFile) {
     return (
       <div className="flex-1 flex items-center justify-center bg-gray-50">
@@ -42,27 +77,87 @@ export const CodeEditor = ({ selectedFile, updateFileContent }: CodeEditorProps)
         <div className="text-center text-gray-500">
           <p>Cannot edit folders</p>
           <p className="text-sm mt-1">Select a file to view its content</p>
+          {hasPlaceholders(selectedFile.name) && (
+            <div className="flex justify-center mt-3">
+              <PlaceholderToggle node={selectedFile} setTemplated={setTemplated} />
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (isBinaryFile(selectedFile)) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-gray-50">
+        <div className="text-center text-gray-500">
+          <FileImage className="h-12 w-12 mx-auto mb-4" />
+          <p>{selectedFile.name}</p>
+          <p className="text-sm mt-1">
+            Binary file ({formatBytes(contentByteLength(selectedFile.content || '', selectedFile.encoding))}) cannot be edited here
+          </p>
         </div>
       </div>
     );
   }
 
+  const hasNamePlaceholders = hasPlaceholders(selectedFile.name);
+  const resolvedName = selectedFile.templated ? resolvePlaceholders(selectedFile.name, templateValues) : selectedFile.name;
+  const canPreview = !!selectedFile.templated && hasPlaceholders(content);
+  const isPreviewing = showPreview && canPreview;
+
   return (
     <div className="flex-1 flex flex-col bg-white">
-      <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
+      <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
         <div className="flex items-center space-x-2">
           <File className="h-4 w-4 text-gray-500" />
           <span className="text-sm font-medium text-gray-900">{selectedFile.name}</span>
+          {resolvedName !== selectedFile.name && (
+            <span className="text-xs text-gray-500" title="File name on export">→ {resolvedName}</span>
+          )}
+          {selectedFile.placeholder && (
+            <span className="text-xs text-amber-600">Placeholder content</span>
+          )}
+        </div>
+        <div className="flex items-center space-x-1">
+          {(hasNamePlaceholders || hasPlaceholders(content)) && (
+            <PlaceholderToggle node={selectedFile} setTemplated={setTemplated} />
+          )}
+          {canPreview && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowPreview(!showPreview)}
+              title={isPreviewing ? 'Back to editing' : 'Preview with placeholders filled in'}
+              className="h-7 px-2 text-xs"
+            >
+              {isPreviewing ? <EyeOff className="h-4 w-4 mr-1" /> : <Eye className="h-4 w-4 mr-1" />}
+              {isPreviewing ? 'Edit' : 'Preview'}
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onUndo} disabled={!canUndo} title="Undo typing (Ctrl+Z)" className="p-1 h-7 w-7">
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onRedo} disabled={!canRedo} title="Redo typing (Ctrl+Shift+Z)" className="p-1 h-7 w-7">
+            <Redo2 className="h-4 w-4" />
+          </Button>
         </div>
       </div>
       
       <div className="flex-1 p-4">
-        <Textarea
-          value={content}
-          onChange={(e) => handleContentChange(e.target.value)}
-          className="w-full h-full resize-none font-mono text-sm"
-          placeholder="Enter your code here..."
-        />
+        {isPreviewing ? (
+          <pre className="w-full h-full overflow-auto rounded-md border border-gray-200 bg-gray-50 px-3 py-2 font-mono text-sm whitespace-pre-wrap">
+            {resolvePlaceholders(content, templateValues)}
+          </pre>
+        ) : (
+          <Textarea
+            value={content}
+            onChange={(e) => handleContentChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="w-full h-full resize-none font-mono text-sm"
+            placeholder="Enter your code here..."
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,310 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertCircle } from 'lucide-react';
+import { ExportPlanList } from '@/components/ExportPlanList';
+import { FileNode } from '@/pages/Index';
+import { toast } from '@/hooks/use-toast';
+import {
+  ExportChangeSummary,
+  ExportFieldOption,
+  ExportFileOverrides,
+  ExportFileProgress,
+  ExportFormField,
+  ExportFormValues,
+  ExportOptions,
+  ExportProvider
+} from '@/lib/exporters';
+
+interface ExportDialogProps {
+  provider: ExportProvider | null;
+  fileTree: FileNode[];
+  options: ExportOptions;
+  onValuesChange: (values: ExportFormValues) => void;
+  onOverridesChange: (overrides: ExportFileOverrides) => void;
+  onClose: () => void;
+  onSubmit: () => void;
+  onRetryFailed: () => void;
+  onCancelExport: () => void;
+  isRunning: boolean;
+  canResume: boolean;
+  progress: string;
+  fileProgress: Record<string, ExportFileProgress>;
+}
+
+const STATUS_CLASSES: Record<ExportFileProgress['status'], string> = {
+  pending: 'text-gray-400',
+  uploading: 'text-blue-600',
+  retrying: 'text-amber-600',
+  done: 'text-green-600',
+  failed: 'text-red-600'
+};
+
+const fieldLabel = (field: ExportFormField, values: ExportFormValues) =>
+  typeof field.label === 'function' ? field.label(values) : field.label;
+
+export const ExportDialog = ({
+  provider,
+  fileTree,
+  options,
+  onValuesChange,
+  onOverridesChange,
+  onClose,
+  onSubmit,
+  onRetryFailed,
+  onCancelExport,
+  isRunning,
+  canResume,
+  progress,
+  fileProgress
+}: ExportDialogProps) => {
+  const [loadedOptions, setLoadedOptions] = useState<Record<string, ExportFieldOption[]>>({});
+  const [changes, setChanges] = useState<ExportChangeSummary | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const values = options.values;
+  // Options are rebuilt on every render; loading reads the latest ones without reloading each time
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Fetch account-dependent select options whenever a provider dialog opens
+  useEffect(() => {
+    setLoadedOptions({});
+    setChanges(null);
+    if (!provider) return;
+
+    provider.fields?.forEach(async field => {
+      if (field.type !== 'select' || !field.loadOptions) return;
+      try {
+        const loaded = await field.loadOptions(optionsRef.current);
+        setLoadedOptions(prev => ({ ...prev, [field.name]: loaded }));
+      } catch (error) {
+        console.error(`Failed to load ${field.name} options:`, error);
+        toast({
+          title: `Could Not Load ${fieldLabel(field, optionsRef.current.values)}`,
+          description: error instanceof Error ? error.message : "Check your credentials in the Authentication panel",
+          variant: "destructive",
+        });
+      }
+    });
+  }, [provider]);
+
+  // Required selects default to their first loaded option
+  useEffect(() => {
+    if (!provider) return;
+    const updates: ExportFormValues = {};
+    provider.fields?.forEach(field => {
+      const loaded = loadedOptions[field.name];
+      if (field.type === 'select' && field.required && loaded?.length && !values[field.name]) {
+        updates[field.name] = loaded[0].value;
+      }
+    });
+    if (Object.keys(updates).length > 0) {
+      onValuesChange({ ...values, ...updates });
+    }
+  }, [loadedOptions, provider, values, onValuesChange]);
+
+  // The exact files the export would send, recomputed as the form changes
+  const plan = useMemo(() => provider?.planFiles?.(fileTree, values) ?? null, [provider, fileTree, values]);
+
+  if (!provider) return null;
+
+  const setValue = (name: string, value: string | boolean) => {
+    setChanges(null);
+    onValuesChange({ ...values, [name]: value });
+  };
+
+  const setOverrides = (overrides: ExportFileOverrides) => {
+    setChanges(null);
+    onOverridesChange(overrides);
+  };
+
+  const previewChanges = async () => {
+    if (!provider.preview) return;
+    setIsPreviewing(true);
+    try {
+      setChanges(await provider.preview(fileTree, options));
+    } catch (error) {
+      console.error('Export preview error:', error);
+      toast({
+        title: "Comparison Failed",
+        description: error instanceof Error ? error.message : "Failed to read the remote repository",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const renderField = (field: ExportFormField) => {
+    const id = `${provider.id}-${field.name}`;
+    const label = `${fieldLabel(field, values)}${field.required ? ' *' : ''}`;
+
+    switch (field.type) {
+      case 'mode':
+        return (
+          <div key={field.name} className="flex flex-wrap gap-2">
+            {field.options.map(option => (
+              <Button
+                key={option.value}
+                variant={values[field.name] === option.value ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setValue(field.name, option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        );
+      case 'checkbox':
+        return (
+          <div key={field.name} className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id={id}
+              checked={!!values[field.name]}
+              onChange={(e) => setValue(field.name, e.target.checked)}
+            />
+            <Label htmlFor={id}>{label}</Label>
+          </div>
+        );
+      case 'select':
+        return (
+          <div key={field.name} className="space-y-2">
+            <Label htmlFor={id}>{label}</Label>
+            <select
+              id={id}
+              value={String(values[field.name] ?? '')}
+              onChange={(e) => setValue(field.name, e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-md"
+            >
+              {[...(field.options || []), ...(loadedOptions[field.name] || [])].map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        );
+      case 'textarea':
+        return (
+          <div key={field.name} className="space-y-2">
+            <Label htmlFor={id}>{label}</Label>
+            <Textarea
+              id={id}
+              value={String(values[field.name] ?? '')}
+              onChange={(e) => setValue(field.name, e.target.value)}
+              placeholder={field.placeholder}
+              className="min-h-[80px]"
+            />
+          </div>
+        );
+      default:
+        return (
+          <div key={field.name} className="space-y-2">
+            <Label htmlFor={id}>{label}</Label>
+            <Input
+              id={id}
+              value={String(values[field.name] ?? '')}
+              onChange={(e) => setValue(field.name, e.target.value)}
+              placeholder={field.placeholder}
+            />
+          </div>
+        );
+    }
+  };
+
+  const visibleFields = (provider.fields || []).filter(field => !field.visible || field.visible(values));
+  const notice = provider.notice?.(values, options);
+  const canPreview = provider.preview && (!provider.canPreview || provider.canPreview(values));
+  const progressEntries = Object.entries(fileProgress);
+  const doneCount = progressEntries.filter(([, file]) => file.status === 'done').length;
+  const failedCount = progressEntries.filter(([, file]) => file.status === 'failed').length;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{provider.dialogTitle?.(values) || provider.label}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {visibleFields.map(renderField)}
+          {plan && progressEntries.length === 0 && (
+            <ExportPlanList plan={plan} overrides={options.overrides || {}} onOverridesChange={setOverrides} />
+          )}
+          {canPreview && (
+            <>
+              <Button variant="outline" size="sm" onClick={previewChanges} disabled={isPreviewing}>
+                {isPreviewing ? 'Comparing...' : 'Compare with remote'}
+              </Button>
+              {changes && (
+                <div className="max-h-40 overflow-y-auto rounded-md border border-gray-200 p-2 font-mono text-xs">
+                  {changes.added.length + changes.changed.length + changes.deleted.length === 0 ? (
+                    <div className="text-gray-500">No changes</div>
+                  ) : (
+                    <>
+                      {changes.added.map(path => (
+                        <div key={`a-${path}`} className="text-green-600">+ {path}</div>
+                      ))}
+                      {changes.changed.map(path => (
+                        <div key={`c-${path}`} className="text-amber-600">~ {path}</div>
+                      ))}
+                      {changes.deleted.map(path => (
+                        <div key={`d-${path}`} className="text-red-600">- {path}</div>
+                      ))}
+                    </>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+          {notice && (
+            <div className="flex items-center space-x-2 text-sm text-amber-600">
+              <AlertCircle className="h-4 w-4" />
+              <span>{notice}</span>
+            </div>
+          )}
+          {isRunning && progress && (
+            <div className="text-sm text-gray-500">{progress}</div>
+          )}
+          {progressEntries.length > 0 && (
+            <div className="space-y-2">
+              <Progress value={(doneCount / progressEntries.length) * 100} className="h-2" />
+              <div className="text-xs text-gray-500">
+                {doneCount} of {progressEntries.length} files uploaded{failedCount > 0 && `, ${failedCount} failed`}
+              </div>
+              <div className="max-h-48 overflow-y-auto rounded-md border border-gray-200 p-2 font-mono text-xs">
+                {progressEntries.map(([path, file]) => (
+                  <div key={path} className="flex justify-between space-x-2" title={file.error}>
+                    <span className="truncate">{path}</span>
+                    <span className={STATUS_CLASSES[file.status]}>{file.status}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="flex justify-end space-x-2">
+          {isRunning ? (
+            <Button variant="outline" onClick={onCancelExport}>
+              Cancel Export
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+          )}
+          {canResume && !isRunning && (
+            <Button variant="outline" onClick={onRetryFailed}>
+              Retry failed
+            </Button>
+          )}
+          <Button onClick={onSubmit} disabled={isRunning}>
+            {isRunning ? 'Working...' : canResume ? 'Start Over' : provider.submitLabel?.(values) || 'Export'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import { isBinaryFile } from '@/lib/fileTree';
+import { formatBytes } from '@/lib/utils';
+import { ExportFileOverrides, ExportPlanFile } from '@/lib/exporters';
+import { SYNTHESIZED_LABELS, applyOverrides, planFileSize } from '@/lib/exporters/plan';
+
+interface ExportPlanListProps {
+  plan: ExportPlanFile[];
+  overrides: ExportFileOverrides;
+  onOverridesChange: (overrides: ExportFileOverrides) => void;
+}
+
+export const ExportPlanList = ({ plan, overrides, onOverridesChange }: ExportPlanListProps) => {
+  const [editingPath, setEditingPath] = useState<string | null>(null);
+
+  const sent = applyOverrides(plan, overrides);
+  const sentByPath = new Map(sent.map(file => [file.path, file]));
+  const totalSize = sent.reduce((total, file) => total + planFileSize(file), 0);
+  const synthesizedCount = sent.filter(file => file.synthesized).length;
+
+  const updateOverride = (path: string, update: { excluded?: boolean; content?: string }) => {
+    const next = { ...overrides[path], ...update };
+    const rest = Object.fromEntries(Object.entries(overrides).filter(([key]) => key !== path));
+    // Drop entries that no longer change anything so the map stays small
+    onOverridesChange(next.excluded || next.content !== undefined ? { ...rest, [path]: next } : rest);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-gray-500">
+        {sent.length} files, {formatBytes(totalSize)} will be sent
+        {synthesizedCount > 0 && ` (${synthesizedCount} added by the export)`}
+      </div>
+      <div className="max-h-48 overflow-y-auto rounded-md border border-gray-200 p-2 font-mono text-xs space-y-1">
+        {plan.map(file => {
+          const override = overrides[file.path];
+          const sentFile = sentByPath.get(file.path);
+          const isEditing = editingPath === file.path;
+          return (
+            <div key={file.path}>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={!!sentFile}
+                  onChange={(e) => updateOverride(file.path, { excluded: !e.target.checked })}
+                  aria-label={`Send ${file.path}`}
+                />
+                <span className={`flex-1 truncate ${sentFile ? '' : 'line-through text-gray-400'}`} title={file.path}>
+                  {file.path}
+                </span>
+                {file.synthesized && (
+                  <span className="shrink-0 text-amber-600">{SYNTHESIZED_LABELS[file.synthesized]}</span>
+                )}
+                {override?.content !== undefined && <span className="shrink-0 text-blue-600">edited</span>}
+                <span className="shrink-0 text-gray-500">{formatBytes(planFileSize(sentFile || file))}</span>
+                {!isBinaryFile(file) && (
+                  <button
+                    type="button"
+                    className="shrink-0 underline text-gray-600"
+                    onClick={() => setEditingPath(isEditing ? null : file.path)}
+                  >
+                    {isEditing ? 'done' : 'edit'}
+                  </button>
+                )}
+              </div>
+              {isEditing && (
+                <div className="mt-1 space-y-1">
+                  <Textarea
+                    value={override?.content ?? file.content}
+                    onChange={(e) => updateOverride(file.path, { content: e.target.value })}
+                    className="min-h-[80px] font-mono text-xs"
+                  />
+                  {override?.content !== undefined && (
+                    <button
+                      type="button"
+                      className="underline text-gray-600"
+                      onClick={() => updateOverride(file.path, { content: undefined })}
+                    >
+                      reset content
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
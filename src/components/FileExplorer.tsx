@@ -1,28 +1,49 @@
-import { useState } from 'react';
+import { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { FileNode } from '@/pages/Index';
-import { Folder, FolderOpen, File, Plus, Trash, FileText } from 'lucide-react';
+import { Folder, FolderOpen, File, FileImage, Plus, Trash, FileText, FileArchive, FolderInput, Github, Package, Import, Upload, Undo2, Redo2 } from 'lucide-react';
 import { StructureImporter } from './StructureImporter';
+import { ZipImporter, ImportMode } from './ZipImporter';
+import { GitHubImporter } from './GitHubImporter';
+import { HuggingFaceImporter } from './HuggingFaceImporter';
+import { isBinaryFile, mergeFileTrees } from '@/lib/fileTree';
+import { importDroppedItems, importLocalFiles } from '@/lib/folderImport';
+import { useToast } from '@/hooks/use-toast';
+import { StructureHistory } from '@/hooks/use-file-history';
 
 interface FileExplorerProps {
   fileTree: FileNode[];
-  setFileTree: (tree: FileNode[]) => void;
+  setFileTree: (tree: FileNode[], label?: string) => void;
+  history: StructureHistory;
   selectedFile: FileNode | null;
   setSelectedFile: (file: FileNode | null) => void;
+  githubToken: string;
+  huggingfaceToken: string;
 }
 
 export const FileExplorer = ({ 
   fileTree, 
   setFileTree, 
+  history,
   selectedFile, 
-  setSelectedFile 
+  setSelectedFile,
+  githubToken,
+  huggingfaceToken
 }: FileExplorerProps) => {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set(['1']));
   const [newItemName, setNewItemName] = useState('');
   const [newItemType, setNewItemType] = useState<'file' | 'folder'>('file');
   const [showNewItemInput, setShowNewItemInput] = useState(false);
   const [showStructureImporter, setShowStructureImporter] = useState(false);
+  const [showZipImporter, setShowZipImporter] = useState(false);
+  const [showGitHubImporter, setShowGitHubImporter] = useState(false);
+  const [showHuggingFaceImporter, setShowHuggingFaceImporter] = useState(false);
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const directoryInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
 
   const toggleFolder = (folderId: string) => {
     const newExpanded = new Set(expandedFolders);
@@ -47,26 +68,75 @@ export const FileExplorer = ({
       children: newItemType === 'folder' ? [] : undefined
     };
 
-    setFileTree([...fileTree, newItem]);
+    setFileTree([...fileTree, newItem], `Add "${newItem.name}"`);
     setNewItemName('');
     setShowNewItemInput(false);
   };
 
-  const deleteItem = (itemId: string) => {
+  const deleteItem = (item: FileNode) => {
+    const itemId = item.id;
     const filterNodes = (nodes: FileNode[]): FileNode[] => {
       return nodes.filter(node => node.id !== itemId).map(node => ({
         ...node,
         children: node.children ? filterNodes(node.children) : undefined
       }));
     };
-    setFileTree(filterNodes(fileTree));
+    setFileTree(filterNodes(fileTree), `Delete "${item.name}"`);
     if (selectedFile?.id === itemId) {
       setSelectedFile(null);
     }
   };
 
   const handleStructureImport = (importedStructure: FileNode[]) => {
-    setFileTree([...fileTree, ...importedStructure]);
+    setFileTree([...fileTree, ...importedStructure], 'Import tree structure');
+  };
+
+  const handleImportWithMode = (importedStructure: FileNode[], mode: ImportMode) => {
+    if (mode === 'replace') {
+      setFileTree(importedStructure, 'Replace with import');
+      setSelectedFile(null);
+    } else {
+      setFileTree(mergeFileTrees(fileTree, importedStructure), 'Merge import');
+    }
+  };
+
+  const handleLocalImport = async (importing: Promise<FileNode[]>, what: 'Folder' | 'Files') => {
+    try {
+      const importedStructure = await importing;
+      setFileTree(mergeFileTrees(fileTree, importedStructure), `Import ${what.toLowerCase()}`);
+      toast({
+        title: `${what} Imported`,
+        description: "Local files have been added to the project",
+      });
+    } catch (error) {
+      console.error(`Error importing ${what.toLowerCase()}:`, error);
+      toast({
+        title: `${what} Import Failed`,
+        description: error instanceof Error ? error.message : "Could not read the local files",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingOver(false);
+    if (e.dataTransfer.items.length === 0) return;
+    handleLocalImport(importDroppedItems(e.dataTransfer.items), 'Folder');
+  };
+
+  const handleDirectoryPicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      handleLocalImport(importLocalFiles(e.target.files), 'Folder');
+    }
+    e.target.value = '';
+  };
+
+  const handleFilesPicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      handleLocalImport(importLocalFiles(e.target.files), 'Files');
+    }
+    e.target.value = '';
   };
 
   const renderFileNode = (node: FileNode, depth = 0) => {
@@ -91,11 +161,18 @@ export const FileExplorer = ({
           {node.type === 'folder' ? (
             isExpanded ? <FolderOpen className="h-4 w-4 text-blue-500 mr-2" /> 
                       : <Folder className="h-4 w-4 text-blue-500 mr-2" />
+          ) : isBinaryFile(node) ? (
+            <FileImage className="h-4 w-4 text-gray-500 mr-2" />
           ) : (
             <File className="h-4 w-4 text-gray-500 mr-2" />
           )}
           
-          <span className="flex-1 text-sm truncate">{node.name}</span>
+          <span
+            className={`flex-1 text-sm truncate ${node.placeholder ? 'italic text-gray-400' : ''}`}
+            title={node.placeholder ? 'Placeholder: replace with the real file before exporting' : undefined}
+          >
+            {node.name}
+          </span>
           
           <Button
             variant="ghost"
@@ -103,7 +180,7 @@ export const FileExplorer = ({
             className="opacity-0 group-hover:opacity-100 p-1 h-6 w-6"
             onClick={(e) => {
               e.stopPropagation();
-              deleteItem(node.id);
+              deleteItem(node);
             }}
           >
             <Trash className="h-3 w-3" />
@@ -120,7 +197,15 @@ export const FileExplorer = ({
   };
 
   return (
-    <div className="flex-1 flex flex-col">
+    <div
+      className={`flex-1 flex flex-col ${isDraggingOver ? 'bg-blue-50 ring-2 ring-inset ring-blue-400' : ''}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDraggingOver(true);
+      }}
+      onDragLeave={() => setIsDraggingOver(false)}
+      onDrop={handleDrop}
+    >
       <div className="p-4 border-b border-gray-200">
         <div className="flex items-center justify-between mb-3">
           <h2 className="font-semibold text-gray-900">Files</h2>
@@ -128,11 +213,71 @@ export const FileExplorer = ({
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setShowStructureImporter(!showStructureImporter)}
-              title="Import Structure"
+              onClick={history.undo}
+              disabled={!history.undoLabel}
+              title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={history.redo}
+              disabled={!history.redoLabel}
+              title={history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
             >
-              <FileText className="h-4 w-4" />
+              <Redo2 className="h-4 w-4" />
             </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" title="Import">
+                  <Import className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => setShowStructureImporter(true)}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  Tree Structure
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => setShowZipImporter(true)}>
+                  <FileArchive className="h-4 w-4 mr-2" />
+                  ZIP Archive
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => directoryInputRef.current?.click()}>
+                  <FolderInput className="h-4 w-4 mr-2" />
+                  Local Folder
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload Files
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => setShowGitHubImporter(true)}>
+                  <Github className="h-4 w-4 mr-2" />
+                  GitHub Repository
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => setShowHuggingFaceImporter(true)}>
+                  <Package className="h-4 w-4 mr-2" />
+                  Hugging Face Repository
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <input
+              type="file"
+              ref={(el) => {
+                directoryInputRef.current = el;
+                el?.setAttribute('webkitdirectory', '');
+              }}
+              onChange={handleDirectoryPicked}
+              className="hidden"
+              multiple
+            />
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFilesPicked}
+              className="hidden"
+              multiple
+            />
             <Button
               variant="outline"
               size="sm"
@@ -191,6 +336,29 @@ export const FileExplorer = ({
           onClose={() => setShowStructureImporter(false)}
         />
       )}
+
+      {showZipImporter && (
+        <ZipImporter
+          onImport={handleImportWithMode}
+          onClose={() => setShowZipImporter(false)}
+        />
+      )}
+
+      {showGitHubImporter && (
+        <GitHubImporter
+          githubToken={githubToken}
+          onImport={handleImportWithMode}
+          onClose={() => setShowGitHubImporter(false)}
+        />
+      )}
+
+      {showHuggingFaceImporter && (
+        <HuggingFaceImporter
+          huggingfaceToken={huggingfaceToken}
+          onImport={handleImportWithMode}
+          onClose={() => setShowHuggingFaceImporter(false)}
+        />
+      )}
     </div>
   );
 };
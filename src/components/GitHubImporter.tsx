@@ -0,0 +1,143 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Github } from 'lucide-react';
+import { FileNode } from '@/pages/Index';
+import { useToast } from '@/hooks/use-toast';
+import { importRepository, parseGitHubRepoInput } from '@/lib/github';
+import { isAbortError } from '@/lib/upload';
+import { ImportMode } from './ZipImporter';
+
+interface GitHubImporterProps {
+  githubToken: string;
+  onImport: (structure: FileNode[], mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+export const GitHubImporter = ({ githubToken, onImport, onClose }: GitHubImporterProps) => {
+  const [repoInput, setRepoInput] = useState('');
+  const [mode, setMode] = useState<ImportMode>('replace');
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  // Closing the importer also stops an import that is still running
+  const handleClose = () => {
+    abortControllerRef.current?.abort();
+    onClose();
+  };
+
+  const handleImport = async () => {
+    // Enter still reaches here while the button is disabled
+    if (isImporting) return;
+
+    const parsed = parseGitHubRepoInput(repoInput);
+    if (!parsed) {
+      toast({
+        title: "Invalid Repository",
+        description: "Use a GitHub URL or owner/repo@ref",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsImporting(true);
+    setProgress(null);
+    try {
+      const importedStructure = await importRepository(githubToken, parsed.fullName, parsed.ref, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+      onImport(importedStructure, mode);
+      toast({
+        title: "Repository Imported",
+        description: `Imported ${parsed.fullName}${parsed.ref ? `@${parsed.ref}` : ''}`,
+      });
+      onClose();
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) return;
+      console.error('Error importing repository:', error);
+      toast({
+        title: "GitHub Import Failed",
+        description: error instanceof Error ? error.message : "Could not read the repository. Please check your token and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsImporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="p-4 border-t border-gray-200 bg-gray-50">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium text-gray-900">Import from GitHub</h3>
+        <Button variant="ghost" size="sm" onClick={handleClose}>
+          ×
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <Input
+          placeholder="owner/repo@main or https://github.com/owner/repo"
+          value={repoInput}
+          onChange={(e) => setRepoInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleImport();
+          }}
+          className="text-sm"
+        />
+
+        <div className="flex items-center space-x-4 text-sm">
+          <div className="flex items-center space-x-2">
+            <input
+              type="radio"
+              id="github-mode-replace"
+              checked={mode === 'replace'}
+              onChange={() => setMode('replace')}
+            />
+            <Label htmlFor="github-mode-replace">Replace</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <input
+              type="radio"
+              id="github-mode-merge"
+              checked={mode === 'merge'}
+              onChange={() => setMode('merge')}
+            />
+            <Label htmlFor="github-mode-merge">Merge</Label>
+          </div>
+        </div>
+
+        {!githubToken && (
+          <p className="text-xs text-gray-500">
+            Without a GitHub token only public repositories can be imported
+          </p>
+        )}
+
+        <div className="flex space-x-2">
+          <Button onClick={handleImport} size="sm" disabled={!repoInput.trim() || isImporting}>
+            <Github className="h-4 w-4 mr-2" />
+            {isImporting
+              ? progress ? `Importing ${progress.done}/${progress.total}...` : 'Importing...'
+              : 'Import Repository'}
+          </Button>
+          {isImporting ? (
+            <Button variant="outline" onClick={() => abortControllerRef.current?.abort()} size="sm">
+              Stop
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={onClose} size="sm">
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
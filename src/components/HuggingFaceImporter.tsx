@@ -0,0 +1,156 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Upload } from 'lucide-react';
+import { FileNode } from '@/pages/Index';
+import { useToast } from '@/hooks/use-toast';
+import { HuggingFaceRepoType, importHuggingFaceRepo, parseHuggingFaceRepoInput } from '@/lib/huggingface';
+import { isAbortError } from '@/lib/upload';
+import { ImportMode } from './ZipImporter';
+
+interface HuggingFaceImporterProps {
+  huggingfaceToken: string;
+  onImport: (structure: FileNode[], mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+export const HuggingFaceImporter = ({ huggingfaceToken, onImport, onClose }: HuggingFaceImporterProps) => {
+  const [repoInput, setRepoInput] = useState('');
+  const [repoType, setRepoType] = useState<HuggingFaceRepoType>('space');
+  const [mode, setMode] = useState<ImportMode>('replace');
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  // Closing the importer also stops an import that is still running
+  const handleClose = () => {
+    abortControllerRef.current?.abort();
+    onClose();
+  };
+
+  const handleImport = async () => {
+    // Enter still reaches here while the button is disabled
+    if (isImporting) return;
+
+    const parsed = parseHuggingFaceRepoInput(repoInput, repoType);
+    if (!parsed) {
+      toast({
+        title: "Invalid Repository",
+        description: "Use a huggingface.co URL or owner/name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsImporting(true);
+    setProgress(null);
+    try {
+      const importedStructure = await importHuggingFaceRepo(huggingfaceToken, parsed.type, parsed.repoId, parsed.revision, {
+        path: parsed.path,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+      onImport(importedStructure, mode);
+      toast({
+        title: "Repository Imported",
+        description: `Imported ${parsed.type} ${parsed.repoId}${parsed.path ? `/${parsed.path}` : ''}. Large LFS files were added as pointer placeholders.`,
+      });
+      onClose();
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) return;
+      console.error('Error importing Hugging Face repo:', error);
+      toast({
+        title: "Hugging Face Import Failed",
+        description: error instanceof Error ? error.message : "Could not read the repository. Please check your token and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsImporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="p-4 border-t border-gray-200 bg-gray-50">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium text-gray-900">Import from Hugging Face</h3>
+        <Button variant="ghost" size="sm" onClick={handleClose}>
+          ×
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex space-x-2">
+          <select
+            value={repoType}
+            onChange={(e) => setRepoType(e.target.value as HuggingFaceRepoType)}
+            className="p-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="space">Space</option>
+            <option value="model">Model</option>
+            <option value="dataset">Dataset</option>
+          </select>
+          <Input
+            placeholder="owner/name or huggingface.co URL"
+            value={repoInput}
+            onChange={(e) => setRepoInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleImport();
+            }}
+            className="text-sm"
+          />
+        </div>
+
+        <div className="flex items-center space-x-4 text-sm">
+          <div className="flex items-center space-x-2">
+            <input
+              type="radio"
+              id="hf-mode-replace"
+              checked={mode === 'replace'}
+              onChange={() => setMode('replace')}
+            />
+            <Label htmlFor="hf-mode-replace">Replace</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <input
+              type="radio"
+              id="hf-mode-merge"
+              checked={mode === 'merge'}
+              onChange={() => setMode('merge')}
+            />
+            <Label htmlFor="hf-mode-merge">Merge</Label>
+          </div>
+        </div>
+
+        {!huggingfaceToken && (
+          <p className="text-xs text-gray-500">
+            Without a Hugging Face token only public repositories can be imported
+          </p>
+        )}
+
+        <div className="flex space-x-2">
+          <Button onClick={handleImport} size="sm" disabled={!repoInput.trim() || isImporting}>
+            <Upload className="h-4 w-4 mr-2" />
+            {isImporting
+              ? progress ? `Importing ${progress.done}/${progress.total}...` : 'Importing...'
+              : 'Import Repository'}
+          </Button>
+          {isImporting ? (
+            <Button variant="outline" onClick={() => abortControllerRef.current?.abort()} size="sm">
+              Stop
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={onClose} size="sm">
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Trash } from 'lucide-react';
+import { FileNode } from '@/pages/Index';
+import { useToast } from '@/hooks/use-toast';
+import { StoredTemplate, deleteTemplate, listTemplates } from '@/lib/projectStore';
+import { DEFAULT_TEMPLATE_ID, STARTER_TEMPLATES, buildStarterTree, getStarterTemplate } from '@/lib/starterTemplates';
+
+interface NewProjectDialogProps {
+  defaultName: string;
+  onCreate: (name: string, fileTree: FileNode[]) => void;
+  onClose: () => void;
+}
+
+// Built-in and saved templates share one selection, e.g. "builtin:gradio" or "saved:<id>"
+type TemplateKey = `builtin:${string}` | `saved:${string}`;
+
+export const NewProjectDialog = ({ defaultName, onCreate, onClose }: NewProjectDialogProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState(defaultName);
+  const [selected, setSelected] = useState<TemplateKey>(`builtin:${DEFAULT_TEMPLATE_ID}`);
+  const [savedTemplates, setSavedTemplates] = useState<StoredTemplate[]>([]);
+
+  useEffect(() => {
+    listTemplates()
+      .then(setSavedTemplates)
+      .catch(error => console.error('Failed to load saved templates:', error));
+  }, []);
+
+  const removeTemplate = async (template: StoredTemplate) => {
+    try {
+      await deleteTemplate(template.id);
+      setSavedTemplates(prev => prev.filter(existing => existing.id !== template.id));
+      if (selected === `saved:${template.id}`) setSelected(`builtin:${DEFAULT_TEMPLATE_ID}`);
+    } catch (error) {
+      console.error('Failed to delete template:', error);
+      toast({
+        title: "Could Not Delete Template",
+        description: error instanceof Error ? error.message : "Saved templates could not be written",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreate = () => {
+    const projectName = name.trim();
+    if (!projectName) return;
+
+    const [kind, id] = selected.split(/:(.*)/) as ['builtin' | 'saved', string];
+    const fileTree = kind === 'builtin'
+      ? buildStarterTree(getStarterTemplate(id))
+      : savedTemplates.find(template => template.id === id)?.fileTree || [];
+    onCreate(projectName, fileTree);
+  };
+
+  const renderCard = (key: TemplateKey, title: string, description: string, onDelete?: () => void) => (
+    <div
+      key={key}
+      onClick={() => setSelected(key)}
+      className={`group relative rounded-md border p-3 cursor-pointer ${
+        selected === key ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+      }`}
+    >
+      <div className="text-sm font-medium text-gray-900 pr-6">{title}</div>
+      <div className="text-xs text-gray-500 mt-1">{description}</div>
+      {onDelete && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 p-1 h-6 w-6"
+          title="Delete template"
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete();
+          }}
+        >
+          <Trash className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Project</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="new-project-name">Project Name</Label>
+            <Input
+              id="new-project-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {STARTER_TEMPLATES.map(template =>
+                renderCard(`builtin:${template.id}`, template.name, template.description)
+              )}
+            </div>
+          </div>
+
+          {savedTemplates.length > 0 && (
+            <div className="space-y-2">
+              <Label>Your Templates</Label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {savedTemplates.map(template =>
+                  renderCard(
+                    `saved:${template.id}`,
+                    template.name,
+                    template.description || 'Saved from a project',
+                    () => removeTemplate(template)
+                  )
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={!name.trim()}>
+            Create Project
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ProjectMetadata, TEMPLATE_VARIABLES, templateValues } from '@/lib/templateVariables';
+
+interface ProjectDetailsDialogProps {
+  projectName: string;
+  metadata: ProjectMetadata;
+  onSave: (metadata: ProjectMetadata) => void;
+  onClose: () => void;
+}
+
+export const ProjectDetailsDialog = ({ projectName, metadata, onSave, onClose }: ProjectDetailsDialogProps) => {
+  const [description, setDescription] = useState(metadata.description);
+  const [author, setAuthor] = useState(metadata.author);
+
+  // Shows what each placeholder will become with the details being edited
+  const values = templateValues(projectName, { description, author });
+
+  const handleSave = () => {
+    onSave({ description: description.trim(), author: author.trim() });
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Project Details</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="project-description">Description</Label>
+            <Textarea
+              id="project-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What this project does"
+              rows={2}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-author">Author</Label>
+            <Input
+              id="project-author"
+              value={author}
+              onChange={(e) => setAuthor(e.target.value)}
+              placeholder="Your name"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Placeholders</Label>
+            <p className="text-xs text-gray-500">
+              Use these in file contents or names. They are filled in on export and in the editor preview for files with "Fill in placeholders" turned on; empty values leave the placeholder as it is.
+            </p>
+            <div className="rounded-md border border-gray-200 divide-y divide-gray-100 text-xs">
+              {TEMPLATE_VARIABLES.map(variable => (
+                <div key={variable.name} className="flex items-center justify-between px-2 py-1" title={variable.description}>
+                  <code className="text-blue-700">{`{{${variable.name}}}`}</code>
+                  <span className="text-gray-600 truncate ml-4">
+                    {values[variable.name] || <span className="italic text-gray-400">empty</span>}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,15 +1,43 @@
 
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Edit, Code } from 'lucide-react';
+import { Edit, Code, LayoutGrid, History, Info, Check, CircleDot, Loader2, AlertCircle, type LucideIcon } from 'lucide-react';
+import { SaveStatus } from '@/hooks/use-autosave';
 
 interface ProjectHeaderProps {
   projectName: string;
   setProjectName: (name: string) => void;
+  saveStatus: SaveStatus;
+  saveError?: string | null;
+  onOpenHistory: () => void;
+  onOpenDetails: () => void;
 }
 
-export const ProjectHeader = ({ projectName, setProjectName }: ProjectHeaderProps) => {
+const SAVE_INDICATORS: Record<SaveStatus, { label: string; icon: LucideIcon; className: string }> = {
+  loading: { label: 'Loading...', icon: Loader2, className: 'text-gray-400' },
+  saved: { label: 'Saved', icon: Check, className: 'text-green-600' },
+  unsaved: { label: 'Unsaved changes', icon: CircleDot, className: 'text-amber-600' },
+  saving: { label: 'Saving...', icon: Loader2, className: 'text-gray-500' },
+  error: { label: 'Not saved', icon: AlertCircle, className: 'text-red-600' }
+};
+
+const SaveIndicator = ({ status, error }: { status: SaveStatus; error?: string | null }) => {
+  const { label, icon: Icon, className } = SAVE_INDICATORS[status];
+  const spinning = status === 'loading' || status === 'saving';
+  return (
+    <div
+      className={`flex items-center space-x-1 text-xs ${className}`}
+      title={status === 'error' && error ? error : 'Changes are saved in this browser automatically'}
+    >
+      <Icon className={`h-3 w-3 ${spinning ? 'animate-spin' : ''}`} />
+      <span>{label}</span>
+    </div>
+  );
+};
+
+export const ProjectHeader = ({ projectName, setProjectName, saveStatus, saveError, onOpenHistory, onOpenDetails }: ProjectHeaderProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [tempName, setTempName] = useState(projectName);
 
@@ -51,7 +79,10 @@ export const ProjectHeader = ({ projectName, setProjectName }: ProjectHeaderProp
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => setIsEditing(true)}
+                onClick={() => {
+                  setTempName(projectName);
+                  setIsEditing(true);
+                }}
                 className="p-1 h-8 w-8"
               >
                 <Edit className="h-4 w-4" />
@@ -59,10 +90,26 @@ export const ProjectHeader = ({ projectName, setProjectName }: ProjectHeaderProp
             </>
           )}
         </div>
+
+        <SaveIndicator status={saveStatus} error={saveError} />
       </div>
 
-      <div className="text-sm text-gray-500">
-        File Structure Builder
+      <div className="flex items-center space-x-3 text-sm text-gray-500">
+        <Button variant="ghost" size="sm" onClick={onOpenDetails}>
+          <Info className="h-4 w-4 mr-2" />
+          Details
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onOpenHistory}>
+          <History className="h-4 w-4 mr-2" />
+          History
+        </Button>
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/projects">
+            <LayoutGrid className="h-4 w-4 mr-2" />
+            All Projects
+          </Link>
+        </Button>
+        <span>File Structure Builder</span>
       </div>
     </header>
   );
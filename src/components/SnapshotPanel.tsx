@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Camera, RotateCcw, Trash } from 'lucide-react';
+import { FileNode } from '@/pages/Index';
+import { toast } from '@/hooks/use-toast';
+import { isBinaryFile } from '@/lib/fileTree';
+import { StoredSnapshot, createSnapshot, deleteSnapshot, listSnapshots } from '@/lib/projectStore';
+import { FileChange, FileChangeStatus, diffLines, diffTrees, restoreFile } from '@/lib/snapshots';
+
+interface SnapshotPanelProps {
+  projectId: string;
+  fileTree: FileNode[];
+  setFileTree: (tree: FileNode[], label?: string) => void;
+  onClose: () => void;
+}
+
+// Seen from the snapshot: "added" files exist only in the current tree
+const CHANGE_STYLES: Record<FileChangeStatus, { symbol: string; className: string; hint: string }> = {
+  added: { symbol: '+', className: 'text-green-600', hint: 'added since the snapshot' },
+  removed: { symbol: '-', className: 'text-red-600', hint: 'deleted since the snapshot' },
+  modified: { symbol: '~', className: 'text-amber-600', hint: 'changed since the snapshot' }
+};
+
+const LINE_CLASSES = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-700',
+  removed: 'bg-red-50 text-red-700'
+};
+
+const LINE_PREFIXES = { same: ' ', added: '+', removed: '-' };
+
+const FileDiff = ({ change }: { change: FileChange }) => {
+  const files = [change.snapshot, change.current].filter(Boolean);
+  if (files.some(file => isBinaryFile(file))) {
+    return <div className="text-gray-500 px-2 py-1">Binary file, no text diff</div>;
+  }
+
+  const lines = diffLines(change.snapshot?.content || '', change.current?.content || '');
+  if (!lines) {
+    return <div className="text-gray-500 px-2 py-1">File is too large to compare</div>;
+  }
+
+  return (
+    <pre className="max-h-64 overflow-auto border-t border-gray-100 py-1">
+      {lines.map((line, index) => (
+        <div key={index} className={`px-2 ${LINE_CLASSES[line.type]}`}>
+          {LINE_PREFIXES[line.type]} {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+};
+
+const showError = (title: string, error: unknown) => {
+  console.error(`${title}:`, error);
+  toast({
+    title,
+    description: error instanceof Error ? error.message : "Snapshots could not be read or written",
+    variant: "destructive",
+  });
+};
+
+export const SnapshotPanel = ({ projectId, fileTree, setFileTree, onClose }: SnapshotPanelProps) => {
+  const [snapshots, setSnapshots] = useState<StoredSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [expandedPath, setExpandedPath] = useState<string | null>(null);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    listSnapshots(projectId)
+      .then(loaded => {
+        setSnapshots(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+      })
+      .catch(error => showError("Could Not Load Snapshots", error))
+      .finally(() => setIsLoading(false));
+  }, [projectId]);
+
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId) || null;
+  const changes = selected ? diffTrees(selected.fileTree, fileTree) : [];
+
+  const takeSnapshot = async () => {
+    const name = snapshotName.trim();
+    if (!name) return;
+    try {
+      const snapshot = await createSnapshot(projectId, name, fileTree);
+      setSnapshots(prev => [snapshot, ...prev]);
+      setSelectedId(snapshot.id);
+      setSnapshotName('');
+    } catch (error) {
+      showError("Could Not Take Snapshot", error);
+    }
+  };
+
+  const removeSnapshot = async (snapshot: StoredSnapshot) => {
+    try {
+      await deleteSnapshot(snapshot.id);
+      setSnapshots(prev => prev.filter(existing => existing.id !== snapshot.id));
+      if (selectedId === snapshot.id) setSelectedId(null);
+    } catch (error) {
+      showError("Could Not Delete Snapshot", error);
+    }
+  };
+
+  const restoreProject = () => {
+    if (!selected) return;
+    setFileTree(selected.fileTree, `Restore "${selected.name}"`);
+    toast({
+      title: "Project Restored",
+      description: `Files are back to "${selected.name}". Press Ctrl+Z outside the editor to undo.`,
+    });
+  };
+
+  const restoreSingleFile = (change: FileChange) => {
+    if (!selected) return;
+    setFileTree(restoreFile(fileTree, change), `Restore "${change.path}"`);
+    toast({
+      title: "File Restored",
+      description: change.snapshot
+        ? `${change.path} is back to its version in "${selected.name}"`
+        : `${change.path} was removed because "${selected.name}" does not have it`,
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Project History</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex space-x-2">
+          <Input
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && takeSnapshot()}
+            placeholder='Snapshot name, e.g. "before refactor"'
+          />
+          <Button onClick={takeSnapshot} disabled={!snapshotName.trim()}>
+            <Camera className="h-4 w-4 mr-2" />
+            Take Snapshot
+          </Button>
+        </div>
+
+        <div className="flex space-x-4 min-h-[300px]">
+          <div className="w-60 shrink-0 space-y-1 overflow-y-auto max-h-[60vh]">
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading snapshots...</p>
+            ) : snapshots.length === 0 ? (
+              <p className="text-sm text-gray-500">No snapshots yet. One is also taken before every export.</p>
+            ) : snapshots.map(snapshot => (
+              <div
+                key={snapshot.id}
+                className={`group flex items-start justify-between rounded-md px-2 py-1 cursor-pointer ${
+                  snapshot.id === selectedId ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-50'
+                }`}
+                onClick={() => {
+                  setSelectedId(snapshot.id);
+                  setExpandedPath(null);
+                }}
+              >
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 truncate">{snapshot.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(snapshot.createdAt).toLocaleString()}
+                    {snapshot.auto && <span className="ml-1 text-blue-600">auto</span>}
+                    {snapshot.publishedFiles && (
+                      <span className="ml-1" title={snapshot.publishedFiles.join('\n')}>
+                        · {snapshot.publishedFiles.length} files sent
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="opacity-0 group-hover:opacity-100 p-1 h-6 w-6"
+                  title="Delete snapshot"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeSnapshot(snapshot);
+                  }}
+                >
+                  <Trash className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 min-w-0 space-y-2">
+            {selected && (
+              <>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">
+                    {changes.length === 0
+                      ? `No changes since "${selected.name}"`
+                      : `${changes.length} files differ from "${selected.name}"`}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={restoreProject}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore Project
+                  </Button>
+                </div>
+                <div className="rounded-md border border-gray-200 font-mono text-xs divide-y divide-gray-100">
+                  {changes.map(change => {
+                    const style = CHANGE_STYLES[change.status];
+                    const isExpanded = expandedPath === change.path;
+                    return (
+                      <div key={change.path}>
+                        <div className="flex items-center justify-between px-2 py-1">
+                          <button
+                            type="button"
+                            className={`truncate text-left ${style.className}`}
+                            title={`${change.path} (${style.hint})`}
+                            onClick={() => setExpandedPath(isExpanded ? null : change.path)}
+                          >
+                            {style.symbol} {change.path}
+                          </button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => restoreSingleFile(change)}
+                          >
+                            Restore
+                          </Button>
+                        </div>
+                        {isExpanded && <FileDiff change={change} />}
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { FileText, Upload } from 'lucide-react';
 import { FileNode } from '@/pages/Index';
+import { parseTreeText } from '@/lib/treeText';
 
 interface StructureImporterProps {
   onImport: (structure: FileNode[]) => void;
@@ -13,85 +14,11 @@ interface StructureImporterProps {
 export const StructureImporter = ({ onImport, onClose }: StructureImporterProps) => {
   const [structureText, setStructureText] = useState('');
 
-  const parseStructure = (text: string): FileNode[] => {
-    const lines = text.split('\n').filter(line => line.trim());
-    const result: FileNode[] = [];
-    const stack: { node: FileNode; depth: number }[] = [];
-    
-    for (const line of lines) {
-      // Skip the root project name line if it exists
-      if (line.includes('/') && !line.startsWith(' ') && !line.startsWith('├') && !line.startsWith('└')) {
-        continue;
-      }
-      
-      // Calculate depth based on indentation and tree characters
-      const cleanLine = line.replace(/[├└│─]/g, '').replace(/\s+/g, ' ');
-      const depth = (line.length - cleanLine.trim().length) / 4; // Approximate depth
-      
-      let name = cleanLine.trim();
-      if (name.endsWith('/')) {
-        name = name.slice(0, -1);
-      }
-      
-      if (!name) continue;
-      
-      const isFolder = line.includes('/') || name.endsWith('/');
-      const fileExtension = name.includes('.') ? name.split('.').pop() : '';
-      
-      // Create content based on file type
-      let content = '';
-      if (!isFolder) {
-        if (fileExtension === 'py') {
-          content = `# ${name}\n# TODO: Implement functionality`;
-        } else if (fileExtension === 'txt') {
-          content = `# Requirements for ${name.replace('.txt', '')}\n# Add your dependencies here`;
-        } else if (fileExtension === 'md') {
-          content = `# ${name.replace('.md', '')}\n\nProject description goes here.`;
-        } else if (fileExtension === 'json') {
-          content = '{\n  "// TODO": "Add configuration"\n}';
-        } else if (name === 'Dockerfile') {
-          content = 'FROM python:3.9\n\n# TODO: Add Dockerfile instructions';
-        } else {
-          content = `# ${name}\n# TODO: Add content`;
-        }
-      }
-      
-      const newNode: FileNode = {
-        id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-        name,
-        type: isFolder ? 'folder' : 'file',
-        content: isFolder ? undefined : content,
-        children: isFolder ? [] : undefined
-      };
-      
-      // Remove items from stack that are at the same or deeper level
-      while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
-        stack.pop();
-      }
-      
-      if (stack.length === 0) {
-        result.push(newNode);
-      } else {
-        const parent = stack[stack.length - 1].node;
-        if (parent.children) {
-          parent.children.push(newNode);
-          newNode.parent = parent.id;
-        }
-      }
-      
-      if (isFolder) {
-        stack.push({ node: newNode, depth });
-      }
-    }
-    
-    return result;
-  };
-
   const handleImport = () => {
     if (!structureText.trim()) return;
     
     try {
-      const parsedStructure = parseStructure(structureText);
+      const parsedStructure = parseTreeText(structureText);
       onImport(parsedStructure);
       onClose();
     } catch (error) {
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Upload } from 'lucide-react';
+import { FileNode } from '@/pages/Index';
+import { useToast } from '@/hooks/use-toast';
+import { importProjectZip } from '@/lib/zip';
+
+export type ImportMode = 'replace' | 'merge';
+
+interface ZipImporterProps {
+  onImport: (structure: FileNode[], mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+export const ZipImporter = ({ onImport, onClose }: ZipImporterProps) => {
+  const [zipFile, setZipFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleImport = async () => {
+    if (!zipFile) return;
+
+    setIsImporting(true);
+    try {
+      const importedStructure = await importProjectZip(zipFile);
+      onImport(importedStructure, mode);
+      toast({
+        title: "ZIP Imported",
+        description: `Imported ${zipFile.name}`,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error importing ZIP:', error);
+      toast({
+        title: "ZIP Import Failed",
+        description: error instanceof Error ? error.message : "Could not read the ZIP archive",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border-t border-gray-200 bg-gray-50">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium text-gray-900">Import ZIP Archive</h3>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          ×
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <Input
+          type="file"
+          accept=".zip,application/zip"
+          onChange={(e) => setZipFile(e.target.files?.[0] || null)}
+          className="text-sm"
+        />
+
+        <div className="flex items-center space-x-4 text-sm">
+          <div className="flex items-center space-x-2">
+            <input
+              type="radio"
+              id="zip-mode-merge"
+              checked={mode === 'merge'}
+              onChange={() => setMode('merge')}
+            />
+            <Label htmlFor="zip-mode-merge">Merge</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <input
+              type="radio"
+              id="zip-mode-replace"
+              checked={mode === 'replace'}
+              onChange={() => setMode('replace')}
+            />
+            <Label htmlFor="zip-mode-replace">Replace</Label>
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          <Button onClick={handleImport} size="sm" disabled={!zipFile || isImporting}>
+            <Upload className="h-4 w-4 mr-2" />
+            {isImporting ? 'Importing...' : 'Import ZIP'}
+          </Button>
+          <Button variant="outline" onClick={onClose} size="sm">
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
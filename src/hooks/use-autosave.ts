@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FileNode } from '@/pages/Index';
+import { StoredProject, loadProject, saveProject } from '@/lib/projectStore';
+import { EMPTY_METADATA, ProjectMetadata } from '@/lib/templateVariables';
+
+export type SaveStatus = 'loading' | 'saved' | 'unsaved' | 'saving' | 'error';
+
+export const AUTOSAVE_DELAY = 1000;
+
+interface ProjectSnapshot {
+  name: string;
+  metadata: ProjectMetadata;
+  fileTree: FileNode[];
+}
+
+// State updates replace the tree, so reference equality is enough to spot changes
+const sameSnapshot = (a: ProjectSnapshot | null, b: ProjectSnapshot) =>
+  !!a &&
+  a.name === b.name &&
+  a.metadata.description === b.metadata.description &&
+  a.metadata.author === b.metadata.author &&
+  a.fileTree === b.fileTree;
+
+// Restore the project `id`, then save every change to it after `delay` ms of quiet.
+// Ids with no stored project report `notFound` and are never written.
+export const useAutosave = (
+  id: string,
+  name: string,
+  metadata: ProjectMetadata,
+  fileTree: FileNode[],
+  onRestore: (project: StoredProject) => void,
+  delay = AUTOSAVE_DELAY
+) => {
+  const [status, setStatus] = useState<SaveStatus>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+  const savedRef = useRef<ProjectSnapshot | null>(null);
+  const latestRef = useRef<ProjectSnapshot>({ name, metadata, fileTree });
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onRestoreRef = useRef(onRestore);
+  latestRef.current = { name, metadata, fileTree };
+  onRestoreRef.current = onRestore;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoaded(false);
+    setNotFound(false);
+    setStatus('loading');
+    savedRef.current = null;
+
+    loadProject(id)
+      .then(project => {
+        if (cancelled) return;
+        if (!project) {
+          setNotFound(true);
+          return;
+        }
+        savedRef.current = {
+          name: project.name,
+          metadata: project.metadata || EMPTY_METADATA,
+          fileTree: project.fileTree
+        };
+        onRestoreRef.current(project);
+        setStatus('saved');
+        setIsLoaded(true);
+      })
+      .catch(error => {
+        console.error('Failed to restore project:', error);
+        if (cancelled) return;
+        setError(error instanceof Error ? error.message : 'Could not read saved projects');
+        setStatus('error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const save = useCallback(async () => {
+    timerRef.current = null;
+    const snapshot = latestRef.current;
+    setStatus('saving');
+    try {
+      await saveProject({ id, ...snapshot, updatedAt: Date.now() });
+      savedRef.current = snapshot;
+      setError(null);
+      // Edits made while the write was in flight are still waiting for their own save
+      setStatus(sameSnapshot(snapshot, latestRef.current) ? 'saved' : 'unsaved');
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      setError(error instanceof Error ? error.message : 'Could not save the project');
+      setStatus('error');
+    }
+  }, [id]);
+
+  // Leaving the project (another id or unmounting) writes what is still waiting;
+  // declared first so it runs before the debounce cleanup below drops the timer
+  useEffect(() => () => {
+    if (!timerRef.current) return;
+    clearTimeout(timerRef.current);
+    save();
+  }, [save]);
+
+  useEffect(() => {
+    if (!isLoaded || sameSnapshot(savedRef.current, { name, metadata, fileTree })) return;
+
+    setStatus('unsaved');
+    timerRef.current = setTimeout(save, delay);
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = null;
+    };
+  }, [isLoaded, name, metadata, fileTree, delay, save]);
+
+  // Write pending changes right away when the tab is hidden, and warn before closing it
+  useEffect(() => {
+    const flush = () => {
+      if (document.visibilityState !== 'hidden' || !timerRef.current) return;
+      clearTimeout(timerRef.current);
+      save();
+    };
+    const warn = (event: BeforeUnloadEvent) => {
+      if (!timerRef.current) return;
+      event.preventDefault();
+      event.returnValue = '';
+    };
+
+    document.addEventListener('visibilitychange', flush);
+    window.addEventListener('beforeunload', warn);
+    return () => {
+      document.removeEventListener('visibilitychange', flush);
+      window.removeEventListener('beforeunload', warn);
+    };
+  }, [save]);
+
+  return { status, error, notFound };
+};
@@ -0,0 +1,178 @@
+import { useCallback, useMemo, useReducer } from 'react';
+import { FileNode } from '@/pages/Index';
+import { carryOverContents, findNode, updateNode } from '@/lib/fileTree';
+
+// Keystrokes closer together than this are undone as one step
+export const TYPING_COALESCE_MS = 1000;
+const HISTORY_LIMIT = 100;
+
+interface Stack<T> {
+  past: T[];
+  future: T[];
+}
+
+// Adding, deleting, renaming or importing nodes
+interface StructureEntry {
+  label: string;
+  before: FileNode[];
+  after: FileNode[];
+}
+
+interface FileText {
+  content: string;
+  placeholder?: boolean;
+}
+
+// A burst of typing in one file
+interface ContentEntry {
+  before: FileText;
+  after: FileText;
+  at: number;
+}
+
+interface HistoryState {
+  tree: FileNode[];
+  structure: Stack<StructureEntry>;
+  // Text edits are kept per file, so undoing in the editor never touches the tree's shape
+  contents: Record<string, Stack<ContentEntry>>;
+}
+
+type HistoryAction =
+  | { type: 'reset'; tree: FileNode[] }
+  | { type: 'commit'; tree: FileNode[]; label: string }
+  | { type: 'edit'; fileId: string; content: string; at: number }
+  | { type: 'undo-structure' }
+  | { type: 'redo-structure' }
+  | { type: 'undo-content'; fileId: string }
+  | { type: 'redo-content'; fileId: string };
+
+export interface StructureHistory {
+  undoLabel: string | null;
+  redoLabel: string | null;
+  undo: () => void;
+  redo: () => void;
+}
+
+const emptyStack = <T>(): Stack<T> => ({ past: [], future: [] });
+
+const pushLimited = <T>(items: T[], item: T) => [...items, item].slice(-HISTORY_LIMIT);
+
+const applyText = (tree: FileNode[], fileId: string, text: FileText) =>
+  updateNode(tree, fileId, node => ({ ...node, content: text.content, placeholder: text.placeholder }));
+
+const historyReducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'reset':
+      return { tree: action.tree, structure: emptyStack(), contents: {} };
+
+    case 'commit':
+      if (action.tree === state.tree) return state;
+      return {
+        ...state,
+        tree: action.tree,
+        structure: {
+          past: pushLimited(state.structure.past, { label: action.label, before: state.tree, after: action.tree }),
+          future: []
+        }
+      };
+
+    case 'edit': {
+      const file = findNode(state.tree, action.fileId);
+      if (!file || file.content === action.content) return state;
+
+      const stack = state.contents[action.fileId] || emptyStack<ContentEntry>();
+      const after: FileText = { content: action.content };
+      const last = stack.past[stack.past.length - 1];
+      const past = last && stack.future.length === 0 && action.at - last.at < TYPING_COALESCE_MS
+        ? [...stack.past.slice(0, -1), { ...last, after, at: action.at }]
+        : pushLimited(stack.past, { before: { content: file.content || '', placeholder: file.placeholder }, after, at: action.at });
+
+      return {
+        ...state,
+        tree: applyText(state.tree, action.fileId, after),
+        contents: { ...state.contents, [action.fileId]: { past, future: [] } }
+      };
+    }
+
+    case 'undo-structure':
+    case 'redo-structure': {
+      const undo = action.type === 'undo-structure';
+      const from = undo ? state.structure.past : state.structure.future;
+      const entry = from[from.length - 1];
+      if (!entry) return state;
+
+      return {
+        ...state,
+        tree: undo
+          ? carryOverContents(entry.before, state.tree, entry.after)
+          : carryOverContents(entry.after, state.tree, entry.before),
+        structure: undo
+          ? { past: from.slice(0, -1), future: [...state.structure.future, entry] }
+          : { past: [...state.structure.past, entry], future: from.slice(0, -1) }
+      };
+    }
+
+    case 'undo-content':
+    case 'redo-content': {
+      const undo = action.type === 'undo-content';
+      const stack = state.contents[action.fileId];
+      const from = undo ? stack?.past : stack?.future;
+      const entry = from?.[from.length - 1];
+      if (!entry || !findNode(state.tree, action.fileId)) return state;
+
+      return {
+        ...state,
+        tree: applyText(state.tree, action.fileId, undo ? entry.before : entry.after),
+        contents: {
+          ...state.contents,
+          [action.fileId]: undo
+            ? { past: from.slice(0, -1), future: [...stack.future, entry] }
+            : { past: [...stack.past, entry], future: from.slice(0, -1) }
+        }
+      };
+    }
+  }
+};
+
+// The project's file tree with undo/redo for structural changes and, separately, per-file text edits
+export const useFileHistory = (initialTree: FileNode[] = []) => {
+  const [state, dispatch] = useReducer(historyReducer, { tree: initialTree, structure: emptyStack<StructureEntry>(), contents: {} });
+
+  const setFileTree = useCallback((tree: FileNode[], label = 'Change files') => {
+    dispatch({ type: 'commit', tree, label });
+  }, []);
+
+  const updateFileContent = useCallback((fileId: string, content: string) => {
+    dispatch({ type: 'edit', fileId, content, at: Date.now() });
+  }, []);
+
+  // Replace the tree without history, e.g. when a saved project is loaded
+  const resetFileTree = useCallback((tree: FileNode[]) => {
+    dispatch({ type: 'reset', tree });
+  }, []);
+
+  const undoStructure = useCallback(() => dispatch({ type: 'undo-structure' }), []);
+  const redoStructure = useCallback(() => dispatch({ type: 'redo-structure' }), []);
+  const undoContent = useCallback((fileId: string) => dispatch({ type: 'undo-content', fileId }), []);
+  const redoContent = useCallback((fileId: string) => dispatch({ type: 'redo-content', fileId }), []);
+
+  const { past, future } = state.structure;
+  const structureHistory = useMemo<StructureHistory>(() => ({
+    undoLabel: past[past.length - 1]?.label ?? null,
+    redoLabel: future[future.length - 1]?.label ?? null,
+    undo: undoStructure,
+    redo: redoStructure
+  }), [past, future, undoStructure, redoStructure]);
+
+  return {
+    fileTree: state.tree,
+    setFileTree,
+    updateFileContent,
+    resetFileTree,
+    structureHistory,
+    canUndoContent: (fileId: string) => !!state.contents[fileId]?.past.length,
+    canRedoContent: (fileId: string) => !!state.contents[fileId]?.future.length,
+    undoContent,
+    redoContent
+  };
+};
@@ -0,0 +1,13 @@
+import { ExportFormValues } from './types';
+
+// Read a text field as a trimmed string
+export const textValue = (values: ExportFormValues, name: string) => String(values[name] ?? '').trim();
+
+export const DEFAULT_COMMIT_MESSAGE = 'Initial commit from File Structure Builder';
+export const UPDATE_COMMIT_MESSAGE = 'Update from File Structure Builder';
+export const DEFAULT_DESCRIPTION = 'Project created with File Structure Builder';
+
+// Git hosts leave the commit message empty by default, so the fallback can depend on
+// whether the commit starts a new repository or updates one
+export const commitMessageFor = (values: ExportFormValues, isNew: boolean) =>
+  textValue(values, 'commitMessage') || (isNew ? DEFAULT_COMMIT_MESSAGE : UPDATE_COMMIT_MESSAGE);
@@ -0,0 +1,107 @@
+import { GitBranch } from 'lucide-react';
+import { GiteaOwner, commitToGitea, createGiteaRepo, getGiteaRepo, listOwners } from '@/lib/gitea';
+import { ExportFormValues, ExportProvider } from './types';
+import { DEFAULT_DESCRIPTION, commitMessageFor, textValue } from './fields';
+import { planRepositoryFiles, repositoryFilesToSend } from './plan';
+
+const isCreate = (values: ExportFormValues) => values.mode === 'create';
+
+// Owners are stored as "<kind>:<login>" so the repo can be created in the right place
+const parseOwner = (value: string): GiteaOwner | null => {
+  const [kind, login] = value.split(':');
+  return login && (kind === 'user' || kind === 'org') ? { kind, login } : null;
+};
+
+export const giteaProvider: ExportProvider = {
+  id: 'gitea',
+  label: 'Push to Gitea',
+  icon: GitBranch,
+  placement: 'remote',
+  buttonClassName: 'bg-green-700 hover:bg-green-800',
+  requiredCredentials: [
+    { key: 'giteaUrl', label: 'Gitea/Forgejo URL' },
+    { key: 'giteaToken', label: 'Gitea/Forgejo Token' }
+  ],
+  fields: [
+    {
+      type: 'mode',
+      name: 'mode',
+      label: 'Mode',
+      options: [
+        { value: 'create', label: 'New repository' },
+        { value: 'existing', label: 'Existing repository' }
+      ]
+    },
+    {
+      type: 'select',
+      name: 'owner',
+      label: 'Owner',
+      required: true,
+      loadOptions: async ({ credentials }) => {
+        const owners = await listOwners(credentials.giteaUrl, credentials.giteaToken);
+        return owners.map(owner => ({
+          value: `${owner.kind}:${owner.login}`,
+          label: `${owner.login} (${owner.kind === 'org' ? 'organization' : 'user'})`
+        }));
+      }
+    },
+    { type: 'text', name: 'repoName', label: 'Repository Name', required: true, placeholder: 'my-awesome-project' },
+    { type: 'text', name: 'description', label: 'Description', placeholder: 'A description of your project', visible: isCreate },
+    { type: 'text', name: 'branch', label: 'Branch', required: true, placeholder: 'main' },
+    { type: 'text', name: 'commitMessage', label: 'Commit Message', placeholder: 'Leave empty for a default message' },
+    { type: 'checkbox', name: 'isPrivate', label: 'Private repository', visible: isCreate }
+  ],
+  defaultValues: projectName => ({
+    mode: 'create',
+    owner: '',
+    repoName: projectName,
+    branch: 'main',
+    description: DEFAULT_DESCRIPTION,
+    isPrivate: true,
+    commitMessage: ''
+  }),
+  dialogTitle: values => isCreate(values) ? 'Create Gitea Repository' : 'Update Gitea Repository',
+  notice: (values, { credentials }) => isCreate(values)
+    ? `This will create a new repository on ${credentials.giteaUrl}`
+    : 'Files missing from your project will be deleted from the branch',
+  submitLabel: values => isCreate(values) ? 'Create Repository' : 'Push Changes',
+  validate: values => parseOwner(String(values.owner)) ? null : 'Please pick an owner',
+  planFiles: planRepositoryFiles,
+  export: async (tree, { credentials, values, overrides }, { onProgress, signal, checkpoint }) => {
+    const { giteaUrl, giteaToken } = credentials;
+    const owner = parseOwner(String(values.owner));
+    const branch = textValue(values, 'branch');
+
+    // A resumed attempt picks up the repository the first one created instead of creating it again
+    const createdRepo = checkpoint.created.get('repo');
+    const lookUp = !isCreate(values) || !!createdRepo;
+    const [repoOwner, repoName] = createdRepo ? createdRepo.split('/') : [owner.login, textValue(values, 'repoName')];
+    onProgress(lookUp ? 'Looking up repository...' : 'Creating repository...');
+    const repo = lookUp
+      ? await getGiteaRepo(giteaUrl, giteaToken, repoOwner, repoName, signal)
+      : await createGiteaRepo(giteaUrl, giteaToken, owner, {
+          name: textValue(values, 'repoName'),
+          description: String(values.description),
+          isPrivate: !!values.isPrivate,
+          branch
+        }, signal);
+    if (isCreate(values)) checkpoint.created.set('repo', repo.full_name);
+
+    onProgress('Committing files...');
+    await commitToGitea(
+      giteaUrl,
+      giteaToken,
+      repo.full_name,
+      branch,
+      repositoryFilesToSend(tree, overrides),
+      commitMessageFor(values, isCreate(values)),
+      signal
+    );
+
+    return {
+      title: "Pushed to Gitea",
+      description: `All files have been committed to ${repo.full_name}@${branch}`,
+      url: repo.html_url,
+    };
+  }
+};
@@ -0,0 +1,191 @@
+import { Github } from 'lucide-react';
+import {
+  commitChanges,
+  commitFiles,
+  createRepository,
+  diffAgainstRemote,
+  getRepository,
+  getRemoteTree,
+  proposeChanges
+} from '@/lib/github';
+import { errorMessage, isAbortError } from '@/lib/upload';
+import { ExportFormValues, ExportProvider } from './types';
+import { DEFAULT_DESCRIPTION, commitMessageFor, textValue } from './fields';
+import { planRepositoryFiles, repositoryFilesToSend } from './plan';
+
+const isMode = (...modes: string[]) => (values: ExportFormValues) => modes.includes(String(values.mode));
+
+export const githubProvider: ExportProvider = {
+  id: 'github',
+  label: 'Push to GitHub',
+  icon: Github,
+  placement: 'remote',
+  buttonClassName: 'bg-gray-900 hover:bg-gray-800',
+  requiredCredentials: [{ key: 'githubToken', label: 'GitHub Token' }],
+  fields: [
+    {
+      type: 'mode',
+      name: 'mode',
+      label: 'Mode',
+      options: [
+        { value: 'create', label: 'New repository' },
+        { value: 'existing', label: 'Existing repository' },
+        { value: 'pull-request', label: 'Pull request' }
+      ]
+    },
+    { type: 'text', name: 'repoName', label: 'Repository Name', required: true, placeholder: 'my-awesome-project', visible: isMode('create') },
+    { type: 'text', name: 'description', label: 'Description', placeholder: 'A description of your project', visible: isMode('create') },
+    { type: 'text', name: 'existingRepo', label: 'Repository', required: true, placeholder: 'owner/repo', visible: isMode('existing', 'pull-request') },
+    {
+      type: 'text',
+      name: 'branch',
+      label: values => values.mode === 'pull-request' ? 'Base Branch' : 'Branch',
+      required: true,
+      placeholder: 'main',
+      visible: isMode('existing', 'pull-request')
+    },
+    { type: 'text', name: 'headBranch', label: 'New Branch', required: true, placeholder: 'feature/update-structure', visible: isMode('pull-request') },
+    { type: 'text', name: 'commitMessage', label: 'Commit Message', placeholder: 'Leave empty for a default message' },
+    { type: 'text', name: 'prTitle', label: 'Pull Request Title', required: true, placeholder: 'Update project structure', visible: isMode('pull-request') },
+    { type: 'textarea', name: 'prBody', label: 'Pull Request Description', placeholder: 'What does this change?', visible: isMode('pull-request') },
+    { type: 'checkbox', name: 'isPrivate', label: 'Private repository', visible: isMode('create') }
+  ],
+  defaultValues: projectName => ({
+    mode: 'create',
+    repoName: projectName,
+    description: DEFAULT_DESCRIPTION,
+    existingRepo: '',
+    branch: 'main',
+    headBranch: `structure-builder/${Date.now()}`,
+    commitMessage: '',
+    prTitle: 'Update project structure',
+    prBody: 'Proposed with File Structure Builder.',
+    isPrivate: false
+  }),
+  dialogTitle: values => ({
+    create: 'Create GitHub Repository',
+    existing: 'Push to Existing Repository',
+    'pull-request': 'Propose Changes'
+  })[String(values.mode)],
+  notice: values => ({
+    create: 'This will create a new repository on GitHub',
+    existing: 'Files missing from your project will be deleted from the branch',
+    'pull-request': 'Changes will be committed to a new branch and opened as a pull request'
+  })[String(values.mode)],
+  submitLabel: values => ({
+    create: 'Create Repository',
+    existing: 'Push Changes',
+    'pull-request': 'Open Pull Request'
+  })[String(values.mode)],
+  validate: values => {
+    if (values.mode !== 'create' && !/^[\w.-]+\/[\w.-]+$/.test(textValue(values, 'existingRepo'))) {
+      return 'Please enter the repository as owner/repo';
+    }
+    return null;
+  },
+  canPreview: isMode('existing', 'pull-request'),
+  preview: async (tree, { credentials, values, overrides }) => {
+    const remote = await getRemoteTree(credentials.githubToken, textValue(values, 'existingRepo'), textValue(values, 'branch'));
+    return diffAgainstRemote(repositoryFilesToSend(tree, overrides), remote);
+  },
+  planFiles: planRepositoryFiles,
+  resetAfterExport: ['headBranch'],
+  export: async (tree, { credentials, values, overrides }, { onProgress, onFileStatus, signal, checkpoint }) => {
+    const token = credentials.githubToken;
+    const files = repositoryFilesToSend(tree, overrides);
+    const fullName = textValue(values, 'existingRepo');
+    const branch = textValue(values, 'branch');
+    const control = { signal, onFileStatus, checkpoint };
+    Object.keys(files).forEach(path => onFileStatus(path, 'pending'));
+
+    if (values.mode === 'create') {
+      // A resumed attempt picks up the repository the first one created
+      const createdRepo = checkpoint.created.get('repo');
+      onProgress(createdRepo ? 'Resuming upload...' : 'Creating repository...');
+      const repoData = createdRepo
+        ? await getRepository(token, createdRepo, signal)
+        : await createRepository(token, {
+          name: textValue(values, 'repoName'),
+          description: String(values.description),
+          isPrivate: !!values.isPrivate
+        }, signal);
+      checkpoint.created.set('repo', repoData.full_name);
+
+      // Commit the whole tree at once on top of the auto-initialized branch
+      onProgress(`Uploading ${Object.keys(files).length} files...`);
+      try {
+        await commitFiles(
+          token,
+          repoData.full_name,
+          repoData.default_branch,
+          files,
+          commitMessageFor(values, true),
+          control
+        );
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        // The repository already exists with only its initial README; say so instead of implying nothing happened
+        throw new Error(
+          `Repository ${repoData.full_name} exists but only holds its initial README; retry to finish it or delete it on GitHub. ` +
+          errorMessage(error)
+        );
+      }
+
+      return {
+        title: "Repository Created Successfully",
+        description: `Repository "${textValue(values, 'repoName')}" has been created and all files committed to GitHub`,
+        url: repoData.html_url,
+      };
+    }
+
+    if (values.mode === 'existing') {
+      onProgress('Comparing with remote...');
+      const { commit, diff } = await commitChanges(
+        token,
+        fullName,
+        branch,
+        files,
+        commitMessageFor(values, false),
+        control
+      );
+
+      if (!commit) {
+        return {
+          title: "Already Up to Date",
+          description: `${fullName}@${branch} already matches your project`,
+        };
+      }
+
+      return {
+        title: "Changes Pushed",
+        description: `Committed ${diff.added.length} added, ${diff.changed.length} changed and ${diff.deleted.length} deleted files to ${fullName}@${branch}`,
+        url: commit.html_url,
+      };
+    }
+
+    onProgress('Opening pull request...');
+    const result = await proposeChanges(
+      token,
+      fullName,
+      branch,
+      textValue(values, 'headBranch'),
+      files,
+      commitMessageFor(values, false),
+      { title: textValue(values, 'prTitle'), body: String(values.prBody) },
+      control
+    );
+
+    if (!result) {
+      return {
+        title: "Nothing to Propose",
+        description: `${fullName}@${branch} already matches your project`,
+      };
+    }
+
+    return {
+      title: `Pull Request #${result.pullRequest.number} Opened`,
+      description: `Proposed ${result.diff.added.length + result.diff.changed.length + result.diff.deleted.length} file changes to ${fullName}@${branch}`,
+      url: result.pullRequest.html_url,
+    };
+  }
+};
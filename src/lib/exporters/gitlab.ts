@@ -0,0 +1,98 @@
+import { Gitlab } from 'lucide-react';
+import { commitToGitLab, createProject, getProject, listNamespaces } from '@/lib/gitlab';
+import { ExportFormValues, ExportProvider } from './types';
+import { DEFAULT_DESCRIPTION, commitMessageFor, textValue } from './fields';
+import { planRepositoryFiles, repositoryFilesToSend } from './plan';
+
+const isCreate = (values: ExportFormValues) => values.mode === 'create';
+
+export const gitlabProvider: ExportProvider = {
+  id: 'gitlab',
+  label: 'Push to GitLab',
+  icon: Gitlab,
+  placement: 'remote',
+  buttonClassName: 'bg-orange-600 hover:bg-orange-700',
+  requiredCredentials: [{ key: 'gitlabToken', label: 'GitLab Token' }],
+  fields: [
+    {
+      type: 'mode',
+      name: 'mode',
+      label: 'Mode',
+      options: [
+        { value: 'create', label: 'New project' },
+        { value: 'existing', label: 'Existing project' }
+      ]
+    },
+    { type: 'text', name: 'projectName', label: 'Project Name', required: true, placeholder: 'my-awesome-project', visible: isCreate },
+    {
+      type: 'select',
+      name: 'namespaceId',
+      label: 'Namespace',
+      visible: isCreate,
+      options: [{ value: '', label: 'Personal namespace' }],
+      loadOptions: async ({ credentials }) => {
+        const namespaces = await listNamespaces(credentials.gitlabUrl, credentials.gitlabToken);
+        return namespaces.map(namespace => ({
+          value: String(namespace.id),
+          label: `${namespace.full_path} (${namespace.kind})`
+        }));
+      }
+    },
+    { type: 'text', name: 'description', label: 'Description', placeholder: 'A description of your project', visible: isCreate },
+    { type: 'text', name: 'existingProject', label: 'Project', required: true, placeholder: 'group/project', visible: values => !isCreate(values) },
+    { type: 'text', name: 'branch', label: 'Branch', required: true, placeholder: 'main' },
+    { type: 'text', name: 'commitMessage', label: 'Commit Message', placeholder: 'Leave empty for a default message' },
+    { type: 'checkbox', name: 'isPrivate', label: 'Private project', visible: isCreate }
+  ],
+  defaultValues: projectName => ({
+    mode: 'create',
+    projectName,
+    namespaceId: '',
+    existingProject: '',
+    branch: 'main',
+    description: DEFAULT_DESCRIPTION,
+    isPrivate: true,
+    commitMessage: ''
+  }),
+  dialogTitle: values => isCreate(values) ? 'Create GitLab Project' : 'Push to Existing Project',
+  notice: (values, { credentials }) => isCreate(values)
+    ? `This will create a new project on ${credentials.gitlabUrl}`
+    : 'Files missing from your project will be deleted from the branch',
+  submitLabel: values => isCreate(values) ? 'Create Project' : 'Push Changes',
+  planFiles: planRepositoryFiles,
+  export: async (tree, { credentials, values, overrides }, { onProgress, signal, checkpoint }) => {
+    const { gitlabUrl, gitlabToken } = credentials;
+    const branch = textValue(values, 'branch');
+
+    // A resumed attempt picks up the project the first one created instead of creating it again
+    const createdProject = checkpoint.created.get('project');
+    const existingProject = createdProject || (isCreate(values) ? '' : textValue(values, 'existingProject'));
+    onProgress(existingProject ? 'Looking up project...' : 'Creating project...');
+    const project = existingProject
+      ? await getProject(gitlabUrl, gitlabToken, existingProject, signal)
+      : await createProject(gitlabUrl, gitlabToken, {
+          name: textValue(values, 'projectName'),
+          namespaceId: values.namespaceId ? Number(values.namespaceId) : undefined,
+          description: String(values.description),
+          isPrivate: !!values.isPrivate
+        }, signal);
+    if (isCreate(values)) checkpoint.created.set('project', project.path_with_namespace);
+
+    onProgress('Committing files...');
+    const commit = await commitToGitLab(
+      gitlabUrl,
+      gitlabToken,
+      project.id,
+      branch,
+      repositoryFilesToSend(tree, overrides),
+      commitMessageFor(values, isCreate(values)),
+      signal
+    );
+
+    return {
+      title: "Pushed to GitLab",
+      description: `All files have been committed to ${project.path_with_namespace}@${branch}`,
+      url: commit.web_url,
+    };
+  }
+};
@@ -0,0 +1,122 @@
+import { Upload } from 'lucide-react';
+import { FileNode } from '@/pages/Index';
+import { needsLfs } from '@/lib/lfs';
+import {
+  HuggingFaceSdk,
+  buildSpaceReadme,
+  commitToSpace,
+  createSpace,
+  ensureAppPy,
+  getFilesForHFUpload,
+  prepareLfsFiles,
+  whoami
+} from '@/lib/huggingface';
+import { ExportFormValues, ExportProvider } from './types';
+import { DEFAULT_COMMIT_MESSAGE, DEFAULT_DESCRIPTION, textValue } from './fields';
+import { applyOverrides } from './plan';
+
+// The generated Space card takes the place of the project's own README.md
+const planSpaceFiles = (tree: FileNode[], values: ExportFormValues) => {
+  const sdk = String(values.sdk) as HuggingFaceSdk;
+  const readme = {
+    path: 'README.md',
+    content: buildSpaceReadme({
+      spaceName: textValue(values, 'spaceName'),
+      description: String(values.description),
+      sdk,
+      license: String(values.license)
+    }, tree),
+    synthesized: 'readme' as const
+  };
+  const projectFiles = getFilesForHFUpload(tree).filter(file => file.path !== readme.path);
+  return prepareLfsFiles(ensureAppPy([readme, ...projectFiles], sdk));
+};
+
+export const huggingFaceProvider: ExportProvider = {
+  id: 'huggingface',
+  label: 'Deploy to HF',
+  icon: Upload,
+  placement: 'remote',
+  buttonClassName: 'bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600',
+  requiredCredentials: [{ key: 'huggingfaceToken', label: 'Hugging Face Token' }],
+  fields: [
+    { type: 'text', name: 'spaceName', label: 'Space Name', required: true, placeholder: 'my-awesome-space' },
+    { type: 'text', name: 'description', label: 'Description', placeholder: 'A description of your space' },
+    { type: 'text', name: 'commitMessage', label: 'Commit Message', placeholder: 'Initial commit' },
+    {
+      type: 'select',
+      name: 'sdk',
+      label: 'SDK',
+      options: [
+        { value: 'gradio', label: 'Gradio' },
+        { value: 'streamlit', label: 'Streamlit' },
+        { value: 'static', label: 'Static' }
+      ]
+    },
+    {
+      type: 'select',
+      name: 'license',
+      label: 'License',
+      options: [
+        { value: 'mit', label: 'MIT' },
+        { value: 'apache-2.0', label: 'Apache 2.0' },
+        { value: 'gpl-3.0', label: 'GPL 3.0' },
+        { value: 'bsd-3-clause', label: 'BSD 3-Clause' }
+      ]
+    }
+  ],
+  defaultValues: projectName => ({
+    spaceName: projectName,
+    description: DEFAULT_DESCRIPTION,
+    sdk: 'gradio',
+    license: 'mit',
+    commitMessage: DEFAULT_COMMIT_MESSAGE
+  }),
+  dialogTitle: () => 'Create Hugging Face Space',
+  notice: () => 'This will create a new Space on Hugging Face',
+  submitLabel: () => 'Create Space',
+  planFiles: (tree, values) => planSpaceFiles(tree, values).files,
+  export: async (tree, { credentials, values, overrides }, { onProgress, onFileStatus, signal, checkpoint }) => {
+    const token = credentials.huggingfaceToken;
+    const spaceName = textValue(values, 'spaceName');
+    const sdk = String(values.sdk) as HuggingFaceSdk;
+
+    const { name: username } = await whoami(token);
+    // A resumed attempt must not try to create the Space again
+    const spaceKey = `space:${username}/${spaceName}`;
+    if (!checkpoint.created.has(spaceKey)) {
+      onProgress('Creating Space...');
+      await createSpace(token, { name: spaceName, sdk, license: String(values.license) }, signal);
+      checkpoint.created.set(spaceKey, `${username}/${spaceName}`);
+    }
+
+    const plan = planSpaceFiles(tree, values);
+    const files = applyOverrides(plan.files, overrides);
+    const lfsCount = files.filter(needsLfs).length;
+    const { skippedPlaceholders } = plan;
+    files.forEach(file => onFileStatus(file.path, 'pending'));
+
+    // Everything lands as one commit, so the Space rebuilds only once
+    await commitToSpace(
+      token,
+      `${username}/${spaceName}`,
+      files,
+      textValue(values, 'commitMessage') || DEFAULT_COMMIT_MESSAGE,
+      onProgress,
+      { signal, onFileStatus, checkpoint }
+    );
+
+    const notes = [
+      lfsCount > 0 ? `${lfsCount} large or binary files were stored with Git LFS.` : '',
+      skippedPlaceholders.length > 0
+        ? `Skipped placeholder files ${skippedPlaceholders.join(', ')}; upload the real files to include them.`
+        : ''
+    ].filter(Boolean);
+
+    return {
+      title: "Space Created & Files Synced!",
+      description: [`All files/folders have been committed to Hugging Face Space "${spaceName}".`, ...notes].join(' '),
+      url: `https://huggingface.co/spaces/${username}/${spaceName}`,
+    };
+  }
+};
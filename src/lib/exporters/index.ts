@@ -0,0 +1,38 @@
+import { ExportProvider } from './types';
+import { zipProvider } from './zip';
+import { vscodeProvider } from './vscode';
+import { setupScriptProvider } from './setupScript';
+import { templateProvider } from './template';
+import { treeTextProvider } from './treeText';
+import { githubProvider } from './github';
+import { gitlabProvider } from './gitlab';
+import { giteaProvider } from './gitea';
+import { huggingFaceProvider } from './huggingface';
+
+export * from './types';
+
+const registry: ExportProvider[] = [
+  zipProvider,
+  vscodeProvider,
+  setupScriptProvider,
+  templateProvider,
+  treeTextProvider,
+  githubProvider,
+  gitlabProvider,
+  giteaProvider,
+  huggingFaceProvider
+];
+
+// Add a provider, replacing any existing one with the same id
+export const registerExportProvider = (provider: ExportProvider) => {
+  const index = registry.findIndex(existing => existing.id === provider.id);
+  if (index >= 0) {
+    registry[index] = provider;
+  } else {
+    registry.push(provider);
+  }
+};
+
+export const getExportProviders = (): ExportProvider[] => [...registry];
+
+export const getExportProvider = (id: string) => registry.find(provider => provider.id === id);
@@ -0,0 +1,41 @@
+import { FileNode } from '@/pages/Index';
+import { RepositoryFile, SynthesizedKind, convertFileTreeToGitHubFiles } from '@/lib/github';
+import { contentByteLength } from '@/lib/fileTree';
+import { ExportFileOverrides, ExportOptions, ExportPlanFile, ExportProvider } from './types';
+
+export const SYNTHESIZED_LABELS: Record<SynthesizedKind, string> = {
+  gitkeep: 'keeps empty folder',
+  filler: 'filler for empty file',
+  'app-py': 'required by the Space SDK',
+  readme: 'generated Space card',
+  gitattributes: 'Git LFS rules'
+};
+
+export const planFromRecord = (files: Record<string, RepositoryFile>): ExportPlanFile[] =>
+  Object.entries(files).map(([path, file]) => ({ path, ...file }));
+
+export const planToRecord = (plan: ExportPlanFile[]): Record<string, RepositoryFile> =>
+  Object.fromEntries(plan.map(({ path, ...file }) => [path, file]));
+
+// Drop excluded files and swap in overridden content; overrides are always text
+export const applyOverrides = (plan: ExportPlanFile[], overrides: ExportFileOverrides = {}): ExportPlanFile[] =>
+  plan
+    .filter(file => !overrides[file.path]?.excluded)
+    .map(file => {
+      const override = overrides[file.path];
+      return override?.content === undefined ? file : { ...file, content: override.content, encoding: undefined };
+    });
+
+export const planFileSize = (file: ExportPlanFile) => contentByteLength(file.content, file.encoding);
+
+// The plan shared by the git hosts: the project's files plus .gitkeep and filler content
+export const planRepositoryFiles = (tree: FileNode[]) => planFromRecord(convertFileTreeToGitHubFiles(tree));
+
+export const repositoryFilesToSend = (tree: FileNode[], overrides?: ExportFileOverrides) =>
+  planToRecord(applyOverrides(planRepositoryFiles(tree), overrides));
+
+// Every path a provider will actually publish: its plan with the overrides applied, or the project's files
+export const publishedFilePaths = (provider: ExportProvider, tree: FileNode[], options: ExportOptions): string[] => {
+  if (!provider.planFiles) return planRepositoryFiles(tree).filter(file => !file.synthesized).map(file => file.path);
+  return applyOverrides(provider.planFiles(tree, options.values), options.overrides).map(file => file.path);
+};
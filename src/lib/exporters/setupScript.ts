@@ -0,0 +1,41 @@
+import { Terminal } from 'lucide-react';
+import { createSetupScript } from '@/lib/setupScript';
+import { downloadBlob } from '@/lib/utils';
+import { ExportProvider } from './types';
+import { DEFAULT_COMMIT_MESSAGE, textValue } from './fields';
+
+export const setupScriptProvider: ExportProvider = {
+  id: 'setup-script',
+  label: 'Download setup.sh',
+  icon: Terminal,
+  placement: 'local',
+  fields: [
+    { type: 'checkbox', name: 'gitInit', label: 'Run git init and create a first commit' },
+    {
+      type: 'text',
+      name: 'commitMessage',
+      label: 'Commit Message',
+      placeholder: 'Initial commit',
+      visible: values => !!values.gitInit
+    }
+  ],
+  defaultValues: () => ({
+    gitInit: true,
+    commitMessage: DEFAULT_COMMIT_MESSAGE
+  }),
+  dialogTitle: () => 'Export Bootstrap Script',
+  notice: (_values, { projectName }) => `Run "bash setup.sh [directory]" to recreate the project; it defaults to ./${projectName}`,
+  submitLabel: () => 'Download Script',
+  export: async (tree, { projectName, values }) => {
+    const script = createSetupScript(projectName, tree, {
+      gitInit: !!values.gitInit,
+      commitMessage: textValue(values, 'commitMessage') || DEFAULT_COMMIT_MESSAGE
+    });
+    downloadBlob(new Blob([script], { type: 'text/x-shellscript' }), 'setup.sh');
+
+    return {
+      title: "Download Started",
+      description: `Bootstrap script for ${projectName} exported as setup.sh`,
+    };
+  }
+};
@@ -0,0 +1,56 @@
+import { LayoutTemplate } from 'lucide-react';
+import { createFilesZip } from '@/lib/zip';
+import { TemplateFormat, createTemplateFiles, parseTemplateVariables } from '@/lib/projectTemplate';
+import { downloadBlob } from '@/lib/utils';
+import { ExportProvider } from './types';
+import { textValue } from './fields';
+
+export const templateProvider: ExportProvider = {
+  id: 'template',
+  label: 'Export as Template',
+  icon: LayoutTemplate,
+  placement: 'local',
+  fields: [
+    {
+      type: 'mode',
+      name: 'format',
+      label: 'Format',
+      options: [
+        { value: 'cookiecutter', label: 'Cookiecutter' },
+        { value: 'copier', label: 'Copier' }
+      ]
+    },
+    {
+      type: 'textarea',
+      name: 'variables',
+      label: 'Extra Variables (name=value per line)',
+      placeholder: 'author=Jane Doe\npackage_name=my_package'
+    }
+  ],
+  defaultValues: () => ({
+    format: 'cookiecutter',
+    variables: ''
+  }),
+  dialogTitle: () => 'Export as Template',
+  notice: (values, { projectName }) =>
+    `"${projectName}" becomes project_name; every occurrence of a variable's value is replaced in file contents and names`,
+  submitLabel: () => 'Download Template',
+  validate: values => {
+    const { errors } = parseTemplateVariables(textValue(values, 'variables'));
+    return errors.length > 0 ? errors.join(', ') : null;
+  },
+  export: async (tree, { projectName, values }, { onProgress }) => {
+    const format = String(values.format) as TemplateFormat;
+    const { variables } = parseTemplateVariables(textValue(values, 'variables'));
+
+    onProgress('Building template...');
+    const files = createTemplateFiles(projectName, tree, format, variables);
+    const archiveName = `${projectName}-${format}`;
+    downloadBlob(await createFilesZip(archiveName, files), `${archiveName}.zip`);
+
+    return {
+      title: "Download Started",
+      description: `${format === 'cookiecutter' ? 'Cookiecutter' : 'Copier'} template exported as ${archiveName}.zip`,
+    };
+  }
+};
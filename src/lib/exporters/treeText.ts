@@ -0,0 +1,55 @@
+import { ListTree } from 'lucide-react';
+import { TreeAnnotation, renderTreeText } from '@/lib/treeText';
+import { ExportProvider } from './types';
+import { textValue } from './fields';
+
+export const treeTextProvider: ExportProvider = {
+  id: 'tree-text',
+  label: 'Copy as Tree',
+  icon: ListTree,
+  placement: 'local',
+  fields: [
+    { type: 'checkbox', name: 'foldersFirst', label: 'List folders before files' },
+    { type: 'text', name: 'maxDepth', label: 'Depth Limit', placeholder: 'No limit' },
+    {
+      type: 'select',
+      name: 'annotation',
+      label: 'Annotations',
+      options: [
+        { value: 'none', label: 'None' },
+        { value: 'lines', label: 'Line counts' },
+        { value: 'size', label: 'File sizes' }
+      ]
+    }
+  ],
+  defaultValues: () => ({
+    foldersFirst: true,
+    maxDepth: '',
+    annotation: 'none'
+  }),
+  dialogTitle: () => 'Copy as Tree',
+  notice: values => textValue(values, 'maxDepth')
+    ? 'Collapsed folders will import back empty'
+    : null,
+  submitLabel: () => 'Copy to Clipboard',
+  validate: values => {
+    const maxDepth = textValue(values, 'maxDepth');
+    return maxDepth && !/^[1-9]\d*$/.test(maxDepth) ? 'Depth limit must be a positive whole number' : null;
+  },
+  export: async (tree, { projectName, values }) => {
+    const text = renderTreeText(tree, {
+      rootName: projectName,
+      foldersFirst: !!values.foldersFirst,
+      maxDepth: Number(textValue(values, 'maxDepth')) || 0,
+      annotation: String(values.annotation) as TreeAnnotation
+    });
+    await navigator.clipboard.writeText(text);
+    // renderTreeText only adds a root line when there is a root name
+    const entryCount = text ? text.split('\n').length - (projectName ? 1 : 0) : 0;
+
+    return {
+      title: "Copied to Clipboard",
+      description: `${entryCount} entries copied as a tree diagram`,
+    };
+  }
+};
@@ -0,0 +1,116 @@
+import type { LucideIcon } from 'lucide-react';
+import { FileNode } from '@/pages/Index';
+import { RepositoryFile } from '@/lib/github';
+import { FileStatusCallback, FileUploadStatus, UploadCheckpoint } from '@/lib/upload';
+
+export interface ExportCredentials {
+  githubToken: string;
+  huggingfaceToken: string;
+  gitlabToken: string;
+  gitlabUrl: string;
+  giteaToken: string;
+  giteaUrl: string;
+}
+
+export type ExportFormValues = Record<string, string | boolean>;
+
+export interface ExportFieldOption {
+  value: string;
+  label: string;
+}
+
+interface BaseField {
+  name: string;
+  label: string | ((values: ExportFormValues) => string);
+  required?: boolean;
+  // Fields are shown (and validated) only while this returns true
+  visible?: (values: ExportFormValues) => boolean;
+}
+
+export type ExportFormField =
+  | (BaseField & { type: 'text'; placeholder?: string })
+  | (BaseField & { type: 'textarea'; placeholder?: string })
+  | (BaseField & { type: 'checkbox' })
+  | (BaseField & { type: 'mode'; options: ExportFieldOption[] })
+  | (BaseField & {
+      type: 'select';
+      options?: ExportFieldOption[];
+      // Options that depend on the account, fetched when the dialog opens
+      loadOptions?: (options: ExportOptions) => Promise<ExportFieldOption[]>;
+    });
+
+// A user's change to one planned file, keyed by path
+export interface ExportFileOverride {
+  excluded?: boolean;
+  content?: string;
+}
+
+export type ExportFileOverrides = Record<string, ExportFileOverride>;
+
+export interface ExportOptions {
+  projectName: string;
+  credentials: ExportCredentials;
+  values: ExportFormValues;
+  overrides?: ExportFileOverrides;
+}
+
+// A file exactly as it will be sent, including ones the export adds on its own
+export interface ExportPlanFile extends RepositoryFile {
+  path: string;
+}
+
+export type ExportProgressCallback = (message: string) => void;
+
+export interface ExportFileProgress {
+  status: FileUploadStatus;
+  error?: string;
+}
+
+export interface ExportContext {
+  onProgress: ExportProgressCallback;
+  // Per-file progress for providers that upload files one by one
+  onFileStatus: FileStatusCallback;
+  signal: AbortSignal;
+  // Shared between an attempt and its "Retry failed" follow-ups
+  checkpoint: UploadCheckpoint;
+}
+
+export interface ExportResult {
+  title: string;
+  description: string;
+  url?: string;
+  variant?: 'default' | 'destructive';
+}
+
+export interface ExportChangeSummary {
+  added: string[];
+  changed: string[];
+  deleted: string[];
+}
+
+export interface ExportProvider {
+  id: string;
+  label: string;
+  icon?: LucideIcon;
+  // 'local' exports sit on the left of the panel, 'remote' ones on the right
+  placement: 'local' | 'remote';
+  buttonClassName?: string;
+  // Credentials that must be filled in before the provider can run
+  requiredCredentials?: { key: keyof ExportCredentials; label: string }[];
+  // Providers without fields run as soon as their button is clicked
+  fields?: ExportFormField[];
+  defaultValues?: (projectName: string) => ExportFormValues;
+  dialogTitle?: (values: ExportFormValues) => string;
+  notice?: (values: ExportFormValues, options: ExportOptions) => string | null;
+  submitLabel?: (values: ExportFormValues) => string;
+  // Extra checks beyond required fields; returns an error message or null
+  validate?: (values: ExportFormValues) => string | null;
+  // Optional dry comparison against the target, shown before exporting
+  canPreview?: (values: ExportFormValues) => boolean;
+  preview?: (tree: FileNode[], options: ExportOptions) => Promise<ExportChangeSummary>;
+  // Every file the export would send, before overrides; lets the user review it without writing anything
+  planFiles?: (tree: FileNode[], values: ExportFormValues) => ExportPlanFile[];
+  // Fields put back to their defaults after a successful export, e.g. a generated branch name
+  resetAfterExport?: string[];
+  export: (tree: FileNode[], options: ExportOptions, context: ExportContext) => Promise<ExportResult>;
+}
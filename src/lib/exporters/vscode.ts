@@ -0,0 +1,50 @@
+import { FileNode } from '@/pages/Index';
+import { contentByteLength, isBinaryFile } from '@/lib/fileTree';
+import { downloadBlob, formatBytes } from '@/lib/utils';
+import { ExportProvider } from './types';
+
+const createFileStructure = (nodes: FileNode[], basePath = ''): string => {
+  let structure = '';
+  nodes.forEach(node => {
+    const fullPath = basePath ? `${basePath}/${node.name}` : node.name;
+    if (node.type === 'file') {
+      structure += `File: ${fullPath}\n`;
+      const content = isBinaryFile(node)
+        ? `// Binary file, ${formatBytes(contentByteLength(node.content || '', node.encoding))}`
+        : node.content || '// Empty file';
+      structure += `Content:\n${content}\n\n---\n\n`;
+    } else if (node.type === 'folder' && node.children) {
+      structure += `Folder: ${fullPath}/\n`;
+      structure += createFileStructure(node.children, fullPath);
+    }
+  });
+  return structure;
+};
+
+export const vscodeProvider: ExportProvider = {
+  id: 'vscode',
+  label: 'Open in VS Code',
+  placement: 'local',
+  export: async (tree, { projectName }) => {
+    try {
+      // Try to open VS Code with a custom protocol
+      const vscodeUrl = `vscode://file/${encodeURIComponent(projectName)}`;
+      window.open(vscodeUrl, '_blank');
+
+      return {
+        title: "Opening in VS Code",
+        description: "If VS Code doesn't open, make sure it's installed and the protocol handler is enabled",
+      };
+    } catch (error) {
+      // Fallback: create a temporary file structure and download it
+      const projectStructure = `Project: ${projectName}\n\n${createFileStructure(tree)}`;
+      downloadBlob(new Blob([projectStructure], { type: 'text/plain' }), `${projectName}-for-vscode.txt`);
+
+      return {
+        title: "VS Code Protocol Failed",
+        description: "Downloaded project structure as text file. You can manually create the files in VS Code.",
+        variant: 'destructive',
+      };
+    }
+  }
+};
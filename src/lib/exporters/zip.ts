@@ -0,0 +1,20 @@
+import { Download } from 'lucide-react';
+import { createProjectZip } from '@/lib/zip';
+import { downloadBlob } from '@/lib/utils';
+import { ExportProvider } from './types';
+
+export const zipProvider: ExportProvider = {
+  id: 'zip',
+  label: 'Download ZIP',
+  icon: Download,
+  placement: 'local',
+  export: async (tree, { projectName }, { onProgress }) => {
+    onProgress('Building archive...');
+    downloadBlob(await createProjectZip(projectName, tree), `${projectName}.zip`);
+
+    return {
+      title: "Download Started",
+      description: `Project exported as ${projectName}.zip`,
+    };
+  }
+};
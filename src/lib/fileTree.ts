@@ -0,0 +1,187 @@
+import { FileEncoding, FileNode } from '@/pages/Index';
+import { base64ToBytes, bytesToBase64, utf8ToBase64 } from '@/lib/utils';
+
+export const generateNodeId = () => Date.now().toString() + Math.random().toString(36).substr(2, 9);
+
+// Re-point parent links after nodes have been moved under a new parent
+const reparent = (nodes: FileNode[], parentId?: string): FileNode[] => {
+  return nodes.map(node => ({
+    ...node,
+    parent: parentId,
+    children: node.children ? reparent(node.children, node.id) : undefined
+  }));
+};
+
+// Merge incoming nodes into an existing tree by path: folders with the same
+// name are merged recursively, files with the same name are replaced
+export const mergeFileTrees = (existing: FileNode[], incoming: FileNode[], parentId?: string): FileNode[] => {
+  const result = [...existing];
+
+  incoming.forEach(node => {
+    const index = result.findIndex(item => item.name === node.name);
+    const match = index >= 0 ? result[index] : undefined;
+
+    if (match && match.type === 'folder' && node.type === 'folder') {
+      result[index] = {
+        ...match,
+        children: mergeFileTrees(match.children || [], node.children || [], match.id)
+      };
+    } else if (match) {
+      result[index] = reparent([node], parentId)[0];
+    } else {
+      result.push(reparent([node], parentId)[0]);
+    }
+  });
+
+  return result;
+};
+
+export const findNode = (nodes: FileNode[], id: string): FileNode | null => {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = node.children ? findNode(node.children, id) : null;
+    if (found) return found;
+  }
+  return null;
+};
+
+// Replace one node; untouched branches keep their identity
+export const updateNode = (nodes: FileNode[], id: string, update: (node: FileNode) => FileNode): FileNode[] =>
+  nodes.map(node => {
+    if (node.id === id) return update(node);
+    if (!node.children) return node;
+    const children = updateNode(node.children, id, update);
+    return children.some((child, index) => child !== node.children[index]) ? { ...node, children } : node;
+  });
+
+// Every file keyed by its slash-separated path from the project root
+export const filesByPath = (nodes: FileNode[], basePath = '', files = new Map<string, FileNode>()) => {
+  nodes.forEach(node => {
+    const path = basePath ? `${basePath}/${node.name}` : node.name;
+    if (node.type === 'file') files.set(path, node);
+    if (node.children) filesByPath(node.children, path, files);
+  });
+  return files;
+};
+
+const collectFiles = (nodes: FileNode[], files = new Map<string, FileNode>()) => {
+  nodes.forEach(node => {
+    if (node.type === 'file') files.set(node.id, node);
+    if (node.children) collectFiles(node.children, files);
+  });
+  return files;
+};
+
+// Give the files in `tree` the content they have in `current`, matched by id, wherever it
+// was edited after `reference`. Lets a structural change be undone without also undoing later text edits.
+export const carryOverContents = (tree: FileNode[], current: FileNode[], reference: FileNode[]): FileNode[] => {
+  const currentFiles = collectFiles(current);
+  const referenceFiles = collectFiles(reference);
+  const carry = (nodes: FileNode[]): FileNode[] => nodes.map(node => {
+    if (node.children) return { ...node, children: carry(node.children) };
+    const file = currentFiles.get(node.id);
+    const edited = file && file.content !== referenceFiles.get(node.id)?.content;
+    return edited && node.type === 'file' && file.content !== node.content
+      ? { ...node, content: file.content, encoding: file.encoding, placeholder: file.placeholder }
+      : node;
+  });
+  return carry(tree);
+};
+
+export interface PathEntry {
+  path: string;
+  type: 'file' | 'folder';
+  content?: string;
+  encoding?: FileEncoding;
+  placeholder?: boolean;
+}
+
+export const countFiles = (nodes: FileNode[]): number =>
+  nodes.reduce((count, node) => count + (node.type === 'file' ? 1 : countFiles(node.children || [])), 0);
+
+export const isBinaryFile = (file: { encoding?: FileEncoding }) => file.encoding === 'base64';
+
+// Keep bytes as text when they are valid UTF-8 without NUL bytes, otherwise as base64
+export const decodeFileBytes = (bytes: Uint8Array): { content: string; encoding?: FileEncoding } => {
+  if (!bytes.includes(0)) {
+    try {
+      return { content: new TextDecoder('utf-8', { fatal: true }).decode(bytes) };
+    } catch {
+      // Not UTF-8; fall through to binary
+    }
+  }
+  return { content: bytesToBase64(bytes), encoding: 'base64' };
+};
+
+export const contentToBase64 = (content: string, encoding?: FileEncoding) =>
+  encoding === 'base64' ? content : utf8ToBase64(content);
+
+export const contentToBytes = (content: string, encoding?: FileEncoding) =>
+  encoding === 'base64' ? base64ToBytes(content) : new TextEncoder().encode(content);
+
+export const contentByteLength = (content: string, encoding?: FileEncoding) =>
+  contentToBytes(content, encoding).length;
+
+const splitPath = (path: string) => path.split('/').filter(Boolean);
+
+// Drop the top-level folder when every entry lives under the same one
+export const stripCommonRoot = <T extends PathEntry>(entries: T[]): T[] => {
+  const topLevel = new Set(entries.map(entry => splitPath(entry.path)[0]).filter(Boolean));
+  if (topLevel.size !== 1) return entries;
+
+  const hasNested = entries.some(entry => splitPath(entry.path).length > 1);
+  if (!hasNested) return entries;
+
+  return entries
+    .map(entry => ({ ...entry, path: splitPath(entry.path).slice(1).join('/') }))
+    .filter(entry => entry.path);
+};
+
+// Build a FileNode tree from flat slash-separated paths, creating any
+// intermediate folders and wiring up parent links
+export const buildFileTree = (entries: PathEntry[]): FileNode[] => {
+  const result: FileNode[] = [];
+  const folders = new Map<string, FileNode>();
+
+  const ensureFolder = (segments: string[]): FileNode | undefined => {
+    if (segments.length === 0) return undefined;
+    const key = segments.join('/');
+    const existing = folders.get(key);
+    if (existing) return existing;
+
+    const parent = ensureFolder(segments.slice(0, -1));
+    const folder: FileNode = {
+      id: generateNodeId(),
+      name: segments[segments.length - 1],
+      type: 'folder',
+      children: [],
+      parent: parent?.id
+    };
+    (parent ? parent.children : result).push(folder);
+    folders.set(key, folder);
+    return folder;
+  };
+
+  entries.forEach(entry => {
+    const segments = splitPath(entry.path);
+    if (segments.length === 0) return;
+
+    if (entry.type === 'folder') {
+      ensureFolder(segments);
+      return;
+    }
+
+    const parent = ensureFolder(segments.slice(0, -1));
+    (parent ? parent.children : result).push({
+      id: generateNodeId(),
+      name: segments[segments.length - 1],
+      type: 'file',
+      content: entry.content || '',
+      encoding: entry.encoding,
+      placeholder: entry.placeholder,
+      parent: parent?.id
+    });
+  });
+
+  return result;
+};
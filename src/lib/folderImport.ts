@@ -0,0 +1,86 @@
+import { FileNode } from '@/pages/Index';
+import { PathEntry, buildFileTree, decodeFileBytes, stripCommonRoot } from '@/lib/fileTree';
+import { GitignoreRule, isIgnoredPath, parseGitignore } from '@/lib/gitignore';
+
+// Folders that are never worth importing, whatever .gitignore says
+const ALWAYS_SKIPPED = ['.git', 'node_modules'];
+
+interface LocalEntry extends PathEntry {
+  file?: File;
+}
+
+const isAlwaysSkipped = (path: string) => path.split('/').some(segment => ALWAYS_SKIPPED.includes(segment));
+
+// A directory reader hands out entries in batches until it returns an empty one
+const readAllDirectoryEntries = async (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectEntry = async (entry: FileSystemEntry, path: string, out: LocalEntry[]) => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    out.push({ path, type: 'file', file });
+  } else if (entry.isDirectory) {
+    if (ALWAYS_SKIPPED.includes(entry.name)) return;
+    out.push({ path, type: 'folder' });
+    const children = await readAllDirectoryEntries((entry as FileSystemDirectoryEntry).createReader());
+    for (const child of children) {
+      await collectEntry(child, `${path}/${child.name}`, out);
+    }
+  }
+};
+
+// Apply .gitignore files found anywhere in the folder, then read the remaining file contents
+const buildLocalTree = async (collected: LocalEntry[]): Promise<FileNode[]> => {
+  const entries = stripCommonRoot(collected);
+
+  const rules: GitignoreRule[] = [];
+  for (const entry of entries) {
+    const segments = entry.path.split('/');
+    if (entry.file && segments[segments.length - 1] === '.gitignore') {
+      rules.push(...parseGitignore(await entry.file.text(), segments.slice(0, -1).join('/')));
+    }
+  }
+
+  const kept = entries.filter(entry => !isIgnoredPath(rules, entry.path, entry.type === 'folder'));
+  const withContent: PathEntry[] = [];
+  for (const entry of kept) {
+    withContent.push({
+      path: entry.path,
+      type: entry.type,
+      ...(entry.file ? decodeFileBytes(new Uint8Array(await entry.file.arrayBuffer())) : {})
+    });
+  }
+
+  return buildFileTree(withContent);
+};
+
+// Read folders and files dropped onto the page. Entries must be taken from the
+// DataTransfer synchronously, before the drop event handler returns.
+export const importDroppedItems = (items: DataTransferItemList): Promise<FileNode[]> => {
+  const entries = Array.from(items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  return (async () => {
+    const collected: LocalEntry[] = [];
+    for (const entry of entries) {
+      await collectEntry(entry, entry.name, collected);
+    }
+    return buildLocalTree(collected);
+  })();
+};
+
+// Read the files chosen through a file input; with webkitdirectory their relative paths are kept
+export const importLocalFiles = (files: FileList): Promise<FileNode[]> => {
+  const collected: LocalEntry[] = Array.from(files)
+    .map(file => ({ path: file.webkitRelativePath || file.name, type: 'file' as const, file }))
+    .filter(entry => !isAlwaysSkipped(entry.path));
+
+  return buildLocalTree(collected);
+};
@@ -0,0 +1,128 @@
+import { contentToBase64 } from '@/lib/fileTree';
+import { RepositoryFile } from '@/lib/github';
+
+export interface GiteaOwner {
+  login: string;
+  kind: 'user' | 'org';
+}
+
+export interface GiteaRepo {
+  full_name: string;
+  html_url: string;
+  default_branch: string;
+}
+
+const apiUrl = (baseUrl: string, path: string) => `${baseUrl.trim().replace(/\/+$/, '')}/api/v1${path}`;
+
+// Call the Gitea/Forgejo API and surface its error message on failure
+const giteaRequest = async <T>(baseUrl: string, token: string, path: string, init: RequestInit = {}): Promise<T> => {
+  if (!baseUrl.trim()) {
+    throw new Error('Please enter your Gitea/Forgejo URL in the Authentication panel');
+  }
+
+  const response = await fetch(apiUrl(baseUrl, path), {
+    ...init,
+    headers: {
+      'Authorization': `token ${token}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      ...init.headers
+    }
+  });
+
+  if (!response.ok) {
+    let message = `Gitea request failed with status ${response.status}`;
+    try {
+      const errorData = await response.json();
+      if (errorData.message) message = errorData.message;
+    } catch {
+      // Keep the status-based message
+    }
+    throw new Error(message);
+  }
+
+  return response.json();
+};
+
+// The signed-in user followed by every organization they belong to
+export const listOwners = async (baseUrl: string, token: string): Promise<GiteaOwner[]> => {
+  const user = await giteaRequest<{ login: string }>(baseUrl, token, '/user');
+  const orgs = await giteaRequest<{ username: string }[]>(baseUrl, token, '/user/orgs?limit=50');
+  return [
+    { login: user.login, kind: 'user' },
+    ...orgs.map(org => ({ login: org.username, kind: 'org' as const }))
+  ];
+};
+
+export const createGiteaRepo = (
+  baseUrl: string,
+  token: string,
+  owner: GiteaOwner,
+  options: { name: string; description: string; isPrivate: boolean; branch: string },
+  signal?: AbortSignal
+) => {
+  // auto_init gives the repo a first commit so the multi-file endpoint has a branch to build on
+  return giteaRequest<GiteaRepo>(baseUrl, token, owner.kind === 'org' ? `/orgs/${owner.login}/repos` : '/user/repos', {
+    method: 'POST',
+    signal,
+    body: JSON.stringify({
+      name: options.name,
+      description: options.description,
+      private: options.isPrivate,
+      auto_init: true,
+      readme: 'Default',
+      default_branch: options.branch
+    })
+  });
+};
+
+export const getGiteaRepo = (baseUrl: string, token: string, owner: string, repo: string, signal?: AbortSignal) => {
+  return giteaRequest<GiteaRepo>(baseUrl, token, `/repos/${owner}/${repo}`, { signal });
+};
+
+// Map every blob path on `branch` to its sha; the tree endpoint pages through large trees
+const listBranchFiles = async (baseUrl: string, token: string, fullName: string, branch: string, signal?: AbortSignal) => {
+  const files = new Map<string, string>();
+
+  for (let page = 1; ; page++) {
+    const tree = await giteaRequest<{ tree: { path: string; type: string; sha: string }[] | null; truncated: boolean }>(
+      baseUrl,
+      token,
+      `/repos/${fullName}/git/trees/${encodeURIComponent(branch)}?recursive=true&per_page=1000&page=${page}`,
+      { signal }
+    );
+    (tree.tree || []).filter(entry => entry.type === 'blob').forEach(entry => files.set(entry.path, entry.sha));
+    if (!tree.truncated) return files;
+  }
+};
+
+// Write the project as one commit through the "modify multiple files" endpoint
+export const commitToGitea = async (
+  baseUrl: string,
+  token: string,
+  fullName: string,
+  branch: string,
+  files: Record<string, RepositoryFile>,
+  message: string,
+  signal?: AbortSignal
+) => {
+  const existing = await listBranchFiles(baseUrl, token, fullName, branch, signal);
+
+  const changes = [
+    ...Object.entries(files).map(([path, file]) => ({
+      operation: existing.has(path) ? 'update' : 'create',
+      path,
+      content: contentToBase64(file.content, file.encoding),
+      sha: existing.get(path)
+    })),
+    ...Array.from(existing.entries())
+      .filter(([path]) => !(path in files))
+      .map(([path, sha]) => ({ operation: 'delete', path, sha }))
+  ];
+
+  return giteaRequest(baseUrl, token, `/repos/${fullName}/contents`, {
+    method: 'POST',
+    signal,
+    body: JSON.stringify({ branch, message, files: changes })
+  });
+};
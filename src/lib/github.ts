@@ -0,0 +1,486 @@
+import { FileEncoding, FileNode } from '@/pages/Index';
+import { PathEntry, buildFileTree, contentToBase64, contentToBytes, decodeFileBytes, isBinaryFile } from '@/lib/fileTree';
+import { base64ToBytes } from '@/lib/utils';
+import { UploadControl, errorMessage, failedUploadsError, isAbortError, mapWithConcurrency, withRetries } from '@/lib/upload';
+
+const GITHUB_API = 'https://api.github.com';
+// Blobs fetched at the same time while importing a repository
+const IMPORT_CONCURRENCY = 6;
+
+export interface GitHubRepo {
+  full_name: string;
+  default_branch: string;
+  html_url: string;
+}
+
+export interface GitHubCommit {
+  sha: string;
+  html_url: string;
+}
+
+// Files added on top of the project's own, and why
+export type SynthesizedKind = 'gitkeep' | 'filler' | 'app-py' | 'readme' | 'gitattributes';
+
+// A file as pushed to a repository; binary files carry base64 content
+export interface RepositoryFile {
+  content: string;
+  encoding?: FileEncoding;
+  synthesized?: SynthesizedKind;
+}
+
+export const convertFileTreeToGitHubFiles = (files: FileNode[], basePath = ''): Record<string, RepositoryFile> => {
+  const result: Record<string, RepositoryFile> = {};
+
+  files.forEach(file => {
+    const fullPath = basePath ? `${basePath}/${file.name}` : file.name;
+
+    if (file.type === 'file' && isBinaryFile(file)) {
+      result[fullPath] = { content: file.content || '', encoding: 'base64' };
+    } else if (file.type === 'file') {
+      result[fullPath] = file.content
+        ? { content: file.content }
+        : { content: `// ${file.name}\n// Auto-generated file`, synthesized: 'filler' };
+    } else if (file.type === 'folder' && file.children) {
+      // Add folder structure by creating files within it
+      const childFiles = convertFileTreeToGitHubFiles(file.children, fullPath);
+      Object.assign(result, childFiles);
+
+      // If folder is empty, create a .gitkeep file
+      if (file.children.length === 0) {
+        result[`${fullPath}/.gitkeep`] = { content: '', synthesized: 'gitkeep' };
+      }
+    }
+  });
+
+  return result;
+};
+
+// Branch names may contain slashes; each segment is encoded on its own so they stay path separators
+const encodeRef = (ref: string) => ref.split('/').map(encodeURIComponent).join('/');
+
+// Call the GitHub REST API and surface its error message on failure
+const githubRequest = async <T>(token: string, path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${GITHUB_API}${path}`, {
+    ...init,
+    headers: {
+      ...(token ? { 'Authorization': `token ${token}` } : {}),
+      'Content-Type': 'application/json',
+      'Accept': 'application/vnd.github.v3+json',
+      ...init.headers
+    }
+  });
+
+  if (!response.ok) {
+    let message = `GitHub request failed with status ${response.status}`;
+    try {
+      const errorData = await response.json();
+      if (errorData.message) message = errorData.message;
+    } catch {
+      // Keep the status-based message
+    }
+    const error = new Error(message) as Error & { status?: number };
+    error.status = response.status;
+    throw error;
+  }
+
+  // Deletions answer 204 with no body
+  return response.status === 204 ? undefined as T : response.json();
+};
+
+export const createRepository = (
+  token: string,
+  options: { name: string; description: string; isPrivate: boolean },
+  signal?: AbortSignal
+) => {
+  // auto_init gives the repo a first commit, which the Git Data API needs before it accepts blobs
+  return githubRequest<GitHubRepo>(token, '/user/repos', {
+    method: 'POST',
+    signal,
+    body: JSON.stringify({
+      name: options.name,
+      description: options.description,
+      private: options.isPrivate,
+      auto_init: true
+    })
+  });
+};
+
+export interface GitHubTreeFile {
+  path: string;
+  sha: string;
+  mode: string;
+}
+
+export interface RemoteTree {
+  commitSha: string;
+  treeSha: string;
+  files: GitHubTreeFile[];
+}
+
+export interface GitHubDiff {
+  added: string[];
+  changed: string[];
+  deleted: string[];
+}
+
+export const getRepository = (token: string, fullName: string, signal?: AbortSignal) => {
+  return githubRequest<GitHubRepo>(token, `/repos/${fullName}`, { signal });
+};
+
+// Resolve a branch to its head commit and list every blob in its tree
+export const getRemoteTree = async (
+  token: string,
+  fullName: string,
+  branch: string,
+  signal?: AbortSignal
+): Promise<RemoteTree> => {
+  const ref = await githubRequest<{ object: { sha: string } }>(token, `/repos/${fullName}/git/ref/heads/${encodeRef(branch)}`, { signal });
+  const commit = await githubRequest<{ tree: { sha: string } }>(
+    token,
+    `/repos/${fullName}/git/commits/${ref.object.sha}`,
+    { signal }
+  );
+  const tree = await githubRequest<{ tree: (GitHubTreeFile & { type: string })[]; truncated: boolean }>(
+    token,
+    `/repos/${fullName}/git/trees/${commit.tree.sha}?recursive=1`,
+    { signal }
+  );
+
+  if (tree.truncated) {
+    throw new Error(`The tree of ${fullName}@${branch} is too large to read in one request`);
+  }
+
+  return {
+    commitSha: ref.object.sha,
+    treeSha: commit.tree.sha,
+    files: tree.tree
+      .filter(entry => entry.type === 'blob')
+      .map(({ path, sha, mode }) => ({ path, sha, mode }))
+  };
+};
+
+// Git's blob id: SHA-1 over "blob <byte length>\0" followed by the content bytes
+export const computeGitBlobSha = async (file: RepositoryFile): Promise<string> => {
+  const body = contentToBytes(file.content, file.encoding);
+  const header = new TextEncoder().encode(`blob ${body.length}\0`);
+  const data = new Uint8Array(header.length + body.length);
+  data.set(header);
+  data.set(body, header.length);
+
+  const digest = await crypto.subtle.digest('SHA-1', data);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const diffAgainstRemote = async (
+  files: Record<string, RepositoryFile>,
+  remote: RemoteTree
+): Promise<GitHubDiff> => {
+  const remoteByPath = new Map(remote.files.map(file => [file.path, file]));
+  const diff: GitHubDiff = { added: [], changed: [], deleted: [] };
+
+  for (const [path, file] of Object.entries(files)) {
+    const remoteFile = remoteByPath.get(path);
+    if (!remoteFile) {
+      diff.added.push(path);
+    } else if (remoteFile.sha !== await computeGitBlobSha(file)) {
+      diff.changed.push(path);
+    }
+  }
+
+  remote.files.forEach(file => {
+    if (!(file.path in files)) diff.deleted.push(file.path);
+  });
+
+  return diff;
+};
+
+// Upload one blob per path. A failed file does not stop the others; once all have
+// been tried the failures are reported together, and blobs stored by an earlier
+// attempt (recorded in the checkpoint) are not uploaded again.
+const createBlobEntries = async (
+  token: string,
+  fullName: string,
+  files: Record<string, RepositoryFile>,
+  paths: string[],
+  modes: Map<string, string>,
+  { signal, onFileStatus = () => {}, checkpoint }: UploadControl
+) => {
+  const entries = [];
+  const failed: string[] = [];
+
+  for (const path of paths) {
+    signal?.throwIfAborted();
+    const sha = await computeGitBlobSha(files[path]);
+
+    if (!checkpoint?.uploaded.has(sha)) {
+      onFileStatus(path, 'uploading');
+      try {
+        await withRetries(
+          () => githubRequest<{ sha: string }>(token, `/repos/${fullName}/git/blobs`, {
+            method: 'POST',
+            signal,
+            body: JSON.stringify({ content: contentToBase64(files[path].content, files[path].encoding), encoding: 'base64' })
+          }),
+          { signal, onRetry: () => onFileStatus(path, 'retrying') }
+        );
+        checkpoint?.uploaded.add(sha);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        onFileStatus(path, 'failed', errorMessage(error));
+        failed.push(path);
+        continue;
+      }
+    }
+
+    onFileStatus(path, 'done');
+    entries.push({ path, mode: modes.get(path) || '100644', type: 'blob', sha });
+  }
+
+  if (failed.length > 0) throw failedUploadsError(failed, paths.length);
+  return entries;
+};
+
+// Create the tree and commit, then move the branch. Nothing is visible on the
+// branch until the final ref update succeeds.
+const writeCommit = async (
+  token: string,
+  fullName: string,
+  branch: string,
+  parentSha: string,
+  treeBody: { base_tree?: string; tree: object[] },
+  message: string,
+  signal?: AbortSignal
+): Promise<GitHubCommit> => {
+  const tree = await githubRequest<{ sha: string }>(token, `/repos/${fullName}/git/trees`, {
+    method: 'POST',
+    signal,
+    body: JSON.stringify(treeBody)
+  });
+
+  const commit = await githubRequest<GitHubCommit>(token, `/repos/${fullName}/git/commits`, {
+    method: 'POST',
+    signal,
+    body: JSON.stringify({ message, tree: tree.sha, parents: [parentSha] })
+  });
+
+  await githubRequest(token, `/repos/${fullName}/git/refs/heads/${encodeRef(branch)}`, {
+    method: 'PATCH',
+    signal,
+    body: JSON.stringify({ sha: commit.sha })
+  });
+
+  return commit;
+};
+
+// Write every file as one commit on top of `branch`. The new tree is built
+// from scratch, so it fully replaces whatever the branch held before.
+export const commitFiles = async (
+  token: string,
+  fullName: string,
+  branch: string,
+  files: Record<string, RepositoryFile>,
+  message: string,
+  control: UploadControl = {}
+): Promise<GitHubCommit> => {
+  const ref = await githubRequest<{ object: { sha: string } }>(
+    token,
+    `/repos/${fullName}/git/ref/heads/${encodeRef(branch)}`,
+    { signal: control.signal }
+  );
+
+  const treeEntries = await createBlobEntries(token, fullName, files, Object.keys(files), new Map(), control);
+  return writeCommit(token, fullName, branch, ref.object.sha, { tree: treeEntries }, message, control.signal);
+};
+
+const isEmptyDiff = (diff: GitHubDiff) => diff.added.length + diff.changed.length + diff.deleted.length === 0;
+
+// Upload the new and changed files of `diff` and commit them, with the deletions,
+// on top of `remote` as `branch`. Files that already match need no upload.
+const commitDiff = async (
+  token: string,
+  fullName: string,
+  branch: string,
+  files: Record<string, RepositoryFile>,
+  remote: RemoteTree,
+  diff: GitHubDiff,
+  message: string,
+  control: UploadControl
+) => {
+  const changedPaths = [...diff.added, ...diff.changed];
+  Object.keys(files)
+    .filter(path => !changedPaths.includes(path))
+    .forEach(path => control.onFileStatus?.(path, 'done'));
+
+  const modes = new Map(remote.files.map(file => [file.path, file.mode]));
+  const treeEntries = [
+    ...await createBlobEntries(token, fullName, files, changedPaths, modes, control),
+    ...diff.deleted.map(path => ({ path, mode: modes.get(path) || '100644', type: 'blob', sha: null }))
+  ];
+
+  return writeCommit(
+    token,
+    fullName,
+    branch,
+    remote.commitSha,
+    { base_tree: remote.treeSha, tree: treeEntries },
+    message,
+    control.signal
+  );
+};
+
+// Commit only what differs from the branch head: new and changed files get
+// fresh blobs, files missing from `files` are removed from the tree
+export const commitChanges = async (
+  token: string,
+  fullName: string,
+  branch: string,
+  files: Record<string, RepositoryFile>,
+  message: string,
+  control: UploadControl = {}
+): Promise<{ commit: GitHubCommit | null; diff: GitHubDiff }> => {
+  const remote = await getRemoteTree(token, fullName, branch, control.signal);
+  const diff = await diffAgainstRemote(files, remote);
+
+  if (isEmptyDiff(diff)) {
+    Object.keys(files).forEach(path => control.onFileStatus?.(path, 'done'));
+    return { commit: null, diff };
+  }
+
+  const commit = await commitDiff(token, fullName, branch, files, remote, diff, message, control);
+  return { commit, diff };
+};
+
+export interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+}
+
+export const createBranch = (token: string, fullName: string, branch: string, fromSha: string, signal?: AbortSignal) => {
+  return githubRequest(token, `/repos/${fullName}/git/refs`, {
+    method: 'POST',
+    signal,
+    body: JSON.stringify({ ref: `refs/heads/${branch}`, sha: fromSha })
+  });
+};
+
+export const deleteBranch = (token: string, fullName: string, branch: string) => {
+  return githubRequest<void>(token, `/repos/${fullName}/git/refs/heads/${encodeRef(branch)}`, { method: 'DELETE' });
+};
+
+export const createPullRequest = (
+  token: string,
+  fullName: string,
+  options: { title: string; body: string; head: string; base: string },
+  signal?: AbortSignal
+) => {
+  return githubRequest<GitHubPullRequest>(token, `/repos/${fullName}/pulls`, {
+    method: 'POST',
+    signal,
+    body: JSON.stringify(options)
+  });
+};
+
+// Branch off `baseBranch`, commit the difference there and open a pull request.
+// Returns null without touching the repository when there is nothing to propose;
+// if the commit or pull request fails, the branch this run created is deleted again.
+export const proposeChanges = async (
+  token: string,
+  fullName: string,
+  baseBranch: string,
+  headBranch: string,
+  files: Record<string, RepositoryFile>,
+  message: string,
+  pullRequest: { title: string; body: string },
+  control: UploadControl = {}
+): Promise<{ pullRequest: GitHubPullRequest; diff: GitHubDiff } | null> => {
+  const remote = await getRemoteTree(token, fullName, baseBranch, control.signal);
+  const diff = await diffAgainstRemote(files, remote);
+  if (isEmptyDiff(diff)) return null;
+
+  // Only a branch recorded as created by this export is ever deleted, never one that was already there
+  const createdResources = control.checkpoint?.created ?? new Map<string, string>();
+  const branchKey = `branch:${fullName}:${headBranch}`;
+  try {
+    // The new branch starts at the base head, so the diff against the base applies to it as is
+    await createBranch(token, fullName, headBranch, remote.commitSha, control.signal);
+    createdResources.set(branchKey, headBranch);
+    await commitDiff(token, fullName, headBranch, files, remote, diff, message, control);
+    const created = await createPullRequest(token, fullName, {
+      ...pullRequest,
+      head: headBranch,
+      base: baseBranch
+    }, control.signal);
+    return { pullRequest: created, diff };
+  } catch (error) {
+    // Uploaded blobs stay in the checkpoint, so a retry only recreates the branch
+    if (createdResources.has(branchKey)) {
+      await deleteBranch(token, fullName, headBranch)
+        .then(() => createdResources.delete(branchKey))
+        .catch(cleanupError => console.error(`Failed to delete branch ${headBranch}:`, cleanupError));
+    }
+    throw error;
+  }
+};
+
+// Accepts owner/repo, owner/repo@ref, https://github.com/owner/repo[/tree/ref] and git@github.com:owner/repo.git
+export const parseGitHubRepoInput = (input: string): { fullName: string; ref?: string } | null => {
+  const value = input.trim();
+
+  const shorthand = value.match(/^([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:@(.+))?$/);
+  if (shorthand) {
+    return { fullName: `${shorthand[1]}/${shorthand[2]}`, ref: shorthand[3] };
+  }
+
+  const url = value.match(/^(?:https?:\/\/)?(?:www\.)?github\.com[/:]([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:\/tree\/(.+?))?\/?$/)
+    || value.match(/^git@github\.com:([\w.-]+)\/([\w.-]+?)(?:\.git)?$/);
+  if (url) {
+    return { fullName: `${url[1]}/${url[2]}`, ref: url[3] };
+  }
+
+  return null;
+};
+
+// Read a repository at `ref` (branch, tag or commit; default branch when omitted) into FileNodes.
+// Blobs are fetched a few at a time; `onProgress` reports how many of them have arrived.
+export const importRepository = async (
+  token: string,
+  fullName: string,
+  ref?: string,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+): Promise<FileNode[]> => {
+  const resolvedRef = ref || (await getRepository(token, fullName, signal)).default_branch;
+  const commit = await githubRequest<{ commit: { tree: { sha: string } } }>(
+    token,
+    `/repos/${fullName}/commits/${encodeRef(resolvedRef)}`,
+    { signal }
+  );
+  const tree = await githubRequest<{ tree: { path: string; type: string; sha: string }[]; truncated: boolean }>(
+    token,
+    `/repos/${fullName}/git/trees/${commit.commit.tree.sha}?recursive=1`,
+    { signal }
+  );
+
+  if (tree.truncated) {
+    throw new Error(`The tree of ${fullName}@${resolvedRef} is too large to read in one request`);
+  }
+
+  const blobs = tree.tree.filter(item => item.type === 'blob');
+
+  let done = 0;
+  onProgress?.(done, blobs.length);
+  const files = await mapWithConcurrency(blobs, IMPORT_CONCURRENCY, async (item): Promise<PathEntry> => {
+    const blob = await withRetries(
+      () => githubRequest<{ content: string }>(token, `/repos/${fullName}/git/blobs/${item.sha}`, { signal }),
+      { signal }
+    );
+    onProgress?.(++done, blobs.length);
+    return { path: item.path, type: 'file', ...decodeFileBytes(base64ToBytes(blob.content)) };
+  }, signal);
+
+  // Keep the tree's own order, with folders where GitHub lists them
+  const filesByPath = new Map(files.map(file => [file.path, file]));
+  const entries: PathEntry[] = tree.tree
+    .filter(item => item.type === 'tree' || item.type === 'blob')
+    .map(item => item.type === 'tree' ? { path: item.path, type: 'folder' } : filesByPath.get(item.path));
+  return buildFileTree(entries);
+};
@@ -0,0 +1,110 @@
+export interface GitignoreRule {
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+// Translate a single gitignore glob into a regular expression body
+const globToRegex = (glob: string): string => {
+  let result = '';
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        if (glob[i + 2] === '/') {
+          result += '(?:.*/)?';
+          i += 3;
+        } else {
+          result += '.*';
+          i += 2;
+        }
+      } else {
+        result += '[^/]*';
+        i += 1;
+      }
+    } else if (char === '?') {
+      result += '[^/]';
+      i += 1;
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        result += '\\[';
+        i += 1;
+      } else {
+        result += `[${glob.slice(i + 1, end).replace(/^!/, '^')}]`;
+        i = end + 1;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      result += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      i += 2;
+    } else {
+      result += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      i += 1;
+    }
+  }
+
+  return result;
+};
+
+// Parse the contents of a .gitignore located at `base` (relative folder path, '' for root)
+export const parseGitignore = (text: string, base = ''): GitignoreRule[] => {
+  const rules: GitignoreRule[] = [];
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) return;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+
+    // A slash anywhere but the end anchors the pattern to the .gitignore folder
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+    if (!line) return;
+
+    const body = globToRegex(line);
+    rules.push({
+      base,
+      regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+      negate,
+      dirOnly
+    });
+  });
+
+  return rules;
+};
+
+// Apply rules to one path; the last matching rule decides
+const matchesRules = (rules: GitignoreRule[], path: string, isDir: boolean): boolean => {
+  let ignored = false;
+
+  rules.forEach(rule => {
+    if (rule.dirOnly && !isDir) return;
+    if (rule.base && !path.startsWith(`${rule.base}/`)) return;
+
+    const relativePath = rule.base ? path.slice(rule.base.length + 1) : path;
+    if (rule.regex.test(relativePath)) {
+      ignored = !rule.negate;
+    }
+  });
+
+  return ignored;
+};
+
+// Returns true when the path, or any folder containing it, is ignored
+export const isIgnoredPath = (rules: GitignoreRule[], path: string, isDir = false): boolean => {
+  const segments = path.split('/').filter(Boolean);
+
+  for (let i = 1; i < segments.length; i++) {
+    if (matchesRules(rules, segments.slice(0, i).join('/'), true)) return true;
+  }
+
+  return matchesRules(rules, segments.join('/'), isDir);
+};
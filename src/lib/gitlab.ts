@@ -0,0 +1,154 @@
+import { contentToBase64 } from '@/lib/fileTree';
+import { RepositoryFile } from '@/lib/github';
+
+export const DEFAULT_GITLAB_URL = 'https://gitlab.com';
+
+export interface GitLabNamespace {
+  id: number;
+  full_path: string;
+  kind: 'user' | 'group';
+}
+
+export interface GitLabProject {
+  id: number;
+  path_with_namespace: string;
+  web_url: string;
+  default_branch: string | null;
+}
+
+export interface GitLabCommit {
+  id: string;
+  web_url: string;
+}
+
+const apiUrl = (baseUrl: string, path: string) =>
+  `${(baseUrl || DEFAULT_GITLAB_URL).trim().replace(/\/+$/, '')}/api/v4${path}`;
+
+// GitLab reports errors as `message` (a string or a field map) or `error`
+const readError = async (response: Response) => {
+  try {
+    const errorData = await response.json();
+    const message = errorData.message || errorData.error;
+    if (typeof message === 'string') return message;
+    if (message) return Object.entries(message).map(([field, errors]) => `${field} ${errors}`).join(', ');
+  } catch {
+    // Fall through to the status-based message
+  }
+  return `GitLab request failed with status ${response.status}`;
+};
+
+const gitlabFetch = async (baseUrl: string, token: string, path: string, init: RequestInit = {}) => {
+  const response = await fetch(apiUrl(baseUrl, path), {
+    ...init,
+    headers: {
+      'PRIVATE-TOKEN': token,
+      'Content-Type': 'application/json',
+      ...init.headers
+    }
+  });
+
+  if (!response.ok) {
+    const error = new Error(await readError(response)) as Error & { status?: number };
+    error.status = response.status;
+    throw error;
+  }
+
+  return response;
+};
+
+const gitlabRequest = async <T>(baseUrl: string, token: string, path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await gitlabFetch(baseUrl, token, path, init);
+  return response.json();
+};
+
+export const listNamespaces = (baseUrl: string, token: string) => {
+  return gitlabRequest<GitLabNamespace[]>(baseUrl, token, '/namespaces?per_page=100');
+};
+
+export const createProject = (
+  baseUrl: string,
+  token: string,
+  options: { name: string; namespaceId?: number; description: string; isPrivate: boolean },
+  signal?: AbortSignal
+) => {
+  return gitlabRequest<GitLabProject>(baseUrl, token, '/projects', {
+    method: 'POST',
+    signal,
+    body: JSON.stringify({
+      name: options.name,
+      namespace_id: options.namespaceId,
+      description: options.description,
+      visibility: options.isPrivate ? 'private' : 'public',
+      initialize_with_readme: false
+    })
+  });
+};
+
+export const getProject = (baseUrl: string, token: string, pathWithNamespace: string, signal?: AbortSignal) => {
+  return gitlabRequest<GitLabProject>(baseUrl, token, `/projects/${encodeURIComponent(pathWithNamespace)}`, { signal });
+};
+
+// List every file path on `branch`. An empty repository has no tree yet and yields no paths.
+const listRepositoryFiles = async (
+  baseUrl: string,
+  token: string,
+  projectId: number,
+  branch: string,
+  signal?: AbortSignal
+) => {
+  const paths: string[] = [];
+  let page = '1';
+
+  while (page) {
+    let response: Response;
+    try {
+      response = await gitlabFetch(
+        baseUrl,
+        token,
+        `/projects/${projectId}/repository/tree?recursive=true&per_page=100&ref=${encodeURIComponent(branch)}&page=${page}`,
+        { signal }
+      );
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) return paths;
+      throw error;
+    }
+
+    const entries: { path: string; type: string }[] = await response.json();
+    entries.filter(entry => entry.type === 'blob').forEach(entry => paths.push(entry.path));
+    page = response.headers.get('X-Next-Page') || '';
+  }
+
+  return paths;
+};
+
+// Write the project as a single commit: new files are created, existing ones
+// updated and anything no longer in `files` deleted
+export const commitToGitLab = async (
+  baseUrl: string,
+  token: string,
+  projectId: number,
+  branch: string,
+  files: Record<string, RepositoryFile>,
+  message: string,
+  signal?: AbortSignal
+) => {
+  const existing = new Set(await listRepositoryFiles(baseUrl, token, projectId, branch, signal));
+
+  const actions = [
+    ...Object.entries(files).map(([path, file]) => ({
+      action: existing.has(path) ? 'update' : 'create',
+      file_path: path,
+      content: contentToBase64(file.content, file.encoding),
+      encoding: 'base64'
+    })),
+    ...Array.from(existing)
+      .filter(path => !(path in files))
+      .map(path => ({ action: 'delete', file_path: path }))
+  ];
+
+  return gitlabRequest<GitLabCommit>(baseUrl, token, `/projects/${projectId}/repository/commits`, {
+    method: 'POST',
+    signal,
+    body: JSON.stringify({ branch, commit_message: message, actions })
+  });
+};
@@ -0,0 +1,516 @@
+import { FileEncoding, FileNode } from '@/pages/Index';
+import { PathEntry, buildFileTree, contentToBase64, contentToBytes, decodeFileBytes, isBinaryFile } from '@/lib/fileTree';
+import { buildLfsGitattributes, needsLfs } from '@/lib/lfs';
+import { SynthesizedKind } from '@/lib/github';
+import {
+  UploadControl,
+  errorMessage,
+  failedUploadsError,
+  isAbortError,
+  mapWithConcurrency,
+  sleep,
+  withRetries
+} from '@/lib/upload';
+
+const HF_HOST = 'https://huggingface.co';
+const HF_API = `${HF_HOST}/api`;
+// Parallel file downloads while importing a repo
+const IMPORT_CONCURRENCY = 6;
+
+export type HuggingFaceSdk = 'gradio' | 'streamlit' | 'static';
+
+export type HuggingFaceRepoType = 'space' | 'model' | 'dataset';
+
+// Where a repo lives on huggingface.co; models have no type prefix
+const repoPath = (type: HuggingFaceRepoType, repoId: string) =>
+  type === 'model' ? repoId : `${type}s/${repoId}`;
+
+export interface HuggingFaceFile {
+  path: string;
+  content: string;
+  encoding?: FileEncoding;
+  // Stand-in content that must not be uploaded where the real file is expected
+  placeholder?: boolean;
+  synthesized?: SynthesizedKind;
+}
+
+// Recursively gather all files with their paths for HF upload
+export const getFilesForHFUpload = (nodes: FileNode[], basePath = ''): HuggingFaceFile[] => {
+  let files: HuggingFaceFile[] = [];
+  nodes.forEach(node => {
+    const fullPath = basePath ? `${basePath}/${node.name}` : node.name;
+    if (node.type === 'file' && isBinaryFile(node)) {
+      files.push({ path: fullPath, content: node.content || '', encoding: 'base64', placeholder: node.placeholder });
+    } else if (node.type === 'file') {
+      files.push({
+        path: fullPath,
+        content: node.content || `// ${node.name}\n// Auto-generated file`,
+        placeholder: node.placeholder,
+        synthesized: node.content ? undefined : 'filler'
+      });
+    } else if (node.type === 'folder') {
+      if (node.children && node.children.length > 0) {
+        files = files.concat(getFilesForHFUpload(node.children, fullPath));
+      } else {
+        // Empty folder: create a .gitkeep file
+        files.push({ path: `${fullPath}/.gitkeep`, content: '', synthesized: 'gitkeep' });
+      }
+    }
+  });
+  return files;
+};
+
+// Helper to ensure app.py is always present for HF Spaces (gradio/streamlit)
+export function ensureAppPy(hfFiles: HuggingFaceFile[], sdk: string): HuggingFaceFile[] {
+  if (sdk !== "gradio" && sdk !== "streamlit") return hfFiles;
+  // check for app.py or app.<ext>
+  if (!hfFiles.some(f => f.path === "app.py" || f.path.startsWith("app."))) {
+    return [...hfFiles, { path: "app.py", content: "# This file is required for running your Space\n", synthesized: 'app-py' }];
+  }
+  return hfFiles;
+}
+
+export const buildSpaceReadme = (
+  options: { spaceName: string; description: string; sdk: HuggingFaceSdk; license: string },
+  fileTree: FileNode[]
+) => `---
+title: ${options.spaceName}
+emoji: 🚀
+colorFrom: blue
+colorTo: red
+sdk: ${options.sdk}
+sdk_version: "4.44.0"
+app_file: app.py
+pinned: false
+license: ${options.license}
+---
+
+# ${options.spaceName}
+
+${options.description}
+
+This space was created using File Structure Builder.
+
+## Project Structure
+
+\`\`\`
+${JSON.stringify(fileTree, (key, value) => value && isBinaryFile(value) ? { ...value, content: '[binary]' } : value, 2)}
+\`\`\`
+`;
+
+const readError = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const whoami = async (token: string): Promise<{ name: string }> => {
+  const response = await fetch(`${HF_API}/whoami-v2`, {
+    headers: { 'Authorization': `Bearer ${token}` }
+  });
+
+  if (!response.ok) {
+    throw new Error('Invalid Hugging Face token');
+  }
+
+  return response.json();
+};
+
+export const createSpace = async (
+  token: string,
+  options: { name: string; sdk: HuggingFaceSdk; license: string },
+  signal?: AbortSignal
+) => {
+  const response = await fetch(`${HF_API}/repos/create`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      type: 'space',
+      name: options.name,
+      private: false,
+      sdk: options.sdk,
+      license: options.license
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to create space'));
+  }
+};
+
+// Split off placeholders (uploading their stand-in text would ship a broken
+// model, dataset or app) and add .gitattributes rules for what is left
+export const prepareLfsFiles = (hfFiles: HuggingFaceFile[]) => {
+  const skippedPlaceholders = hfFiles.filter(file => file.placeholder).map(file => file.path);
+  const files = hfFiles.filter(file => !skippedPlaceholders.includes(file.path));
+  const lfsPaths = files.filter(needsLfs).map(file => file.path);
+  if (lfsPaths.length === 0) return { files, lfsPaths, skippedPlaceholders };
+
+  const existing = files.find(file => file.path === '.gitattributes');
+  const gitattributes: HuggingFaceFile = {
+    path: '.gitattributes',
+    content: buildLfsGitattributes(lfsPaths, existing?.content),
+    synthesized: 'gitattributes'
+  };
+  return {
+    files: existing ? files.map(file => file === existing ? gitattributes : file) : [...files, gitattributes],
+    lfsPaths,
+    skippedPlaceholders
+  };
+};
+
+// A freshly created Space can answer 404 for a short while, so those are retried
+const fetchWhileProvisioning = async (url: string, init: RequestInit, tries = 5) => {
+  let delay = 2000;
+  for (let t = 0; ; t++) {
+    const response = await fetch(url, init);
+    if (response.status !== 404 || t >= tries - 1) return response;
+
+    console.warn(`Attempt ${t + 1}/${tries}: ${url} answered 404, retrying`);
+    await sleep(delay, init.signal);
+    delay = Math.min(delay * 1.5, 8000);
+  }
+};
+
+const sha256Hex = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+interface LfsObject {
+  path: string;
+  oid: string;
+  size: number;
+  bytes: Uint8Array;
+}
+
+interface LfsAction {
+  href: string;
+  header?: Record<string, string>;
+}
+
+const LFS_HEADERS = {
+  'Accept': 'application/vnd.git-lfs+json',
+  'Content-Type': 'application/vnd.git-lfs+json'
+};
+
+// Large objects come back with a chunk_size and one presigned URL per numbered part
+const uploadMultipart = async (object: LfsObject, upload: LfsAction, signal?: AbortSignal) => {
+  const chunkSize = Number(upload.header.chunk_size);
+  const partNumbers = Object.keys(upload.header).filter(key => /^\d+$/.test(key)).sort((a, b) => Number(a) - Number(b));
+  const parts = [];
+
+  for (const key of partNumbers) {
+    const partNumber = Number(key);
+    const response = await fetch(upload.header[key], {
+      method: 'PUT',
+      signal,
+      body: object.bytes.slice((partNumber - 1) * chunkSize, partNumber * chunkSize)
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to upload part ${partNumber} of ${object.path}. Status ${response.status}`);
+    }
+    parts.push({ partNumber, etag: response.headers.get('ETag') });
+  }
+
+  const response = await fetch(upload.href, {
+    method: 'POST',
+    signal,
+    headers: LFS_HEADERS,
+    body: JSON.stringify({ oid: object.oid, parts })
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to complete the upload of ${object.path}. Status ${response.status}`);
+  }
+};
+
+const putLfsObject = async (object: LfsObject, upload: LfsAction, verify: LfsAction | undefined, signal?: AbortSignal) => {
+  if (upload.header?.chunk_size) {
+    await uploadMultipart(object, upload, signal);
+  } else {
+    const uploaded = await fetch(upload.href, {
+      method: 'PUT',
+      signal,
+      headers: { 'Content-Type': 'application/octet-stream', ...upload.header },
+      body: object.bytes
+    });
+    if (!uploaded.ok) {
+      // Keep the status so transient storage errors are retried
+      const error = new Error(`Failed to upload ${object.path}. Status ${uploaded.status}`) as Error & { status?: number };
+      error.status = uploaded.status;
+      throw error;
+    }
+  }
+
+  if (verify) {
+    const verified = await fetch(verify.href, {
+      method: 'POST',
+      signal,
+      headers: { ...LFS_HEADERS, ...verify.header },
+      body: JSON.stringify({ oid: object.oid, size: object.size })
+    });
+    if (!verified.ok) {
+      throw new Error(`The Hub could not verify ${object.path}. Status ${verified.status}`);
+    }
+  }
+};
+
+// Store the objects through the repo's git LFS batch API. Objects the Hub
+// already has come back without an upload action and are skipped; a failed
+// object does not stop the others, and all failures are reported at the end.
+const uploadLfsObjects = async (
+  token: string,
+  type: HuggingFaceRepoType,
+  repoId: string,
+  objects: LfsObject[],
+  onProgress: (message: string) => void,
+  { signal, onFileStatus = () => {}, checkpoint }: UploadControl
+) => {
+  const pending = objects.filter(object => !checkpoint?.uploaded.has(object.oid));
+  objects.filter(object => !pending.includes(object)).forEach(object => onFileStatus(object.path, 'done'));
+  if (pending.length === 0) return;
+
+  const response = await fetchWhileProvisioning(`${HF_HOST}/${repoPath(type, repoId)}.git/info/lfs/objects/batch`, {
+    method: 'POST',
+    signal,
+    headers: { ...LFS_HEADERS, 'Authorization': `Bearer ${token}` },
+    body: JSON.stringify({
+      operation: 'upload',
+      transfers: ['basic', 'multipart'],
+      hash_algo: 'sha_256',
+      ref: { name: 'main' },
+      objects: pending.map(({ oid, size }) => ({ oid, size }))
+    })
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response, `Failed to start the LFS upload to ${repoId}. Status ${response.status}`));
+  }
+
+  const batch: {
+    objects: { oid: string; actions?: { upload?: LfsAction; verify?: LfsAction }; error?: { message: string } }[]
+  } = await response.json();
+  const failed: string[] = [];
+
+  for (const result of batch.objects) {
+    // The server may echo objects nobody asked for; there is nothing to upload for those
+    const object = pending.find(candidate => candidate.oid === result.oid);
+    if (!object) {
+      console.warn(`Ignoring LFS object ${result.oid}, which was not part of the upload`);
+      continue;
+    }
+    try {
+      if (result.error) throw new Error(result.error.message);
+      const upload = result.actions?.upload;
+      if (upload) {
+        onProgress(`Uploading ${object.path} via LFS...`);
+        onFileStatus(object.path, 'uploading');
+        await withRetries(
+          () => putLfsObject(object, upload, result.actions.verify, signal),
+          { signal, onRetry: () => onFileStatus(object.path, 'retrying') }
+        );
+      }
+      checkpoint?.uploaded.add(object.oid);
+      onFileStatus(object.path, 'done');
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      onFileStatus(object.path, 'failed', errorMessage(error));
+      failed.push(object.path);
+    }
+  }
+
+  // Objects the server left out of its answer were never uploaded
+  pending
+    .filter(object => !batch.objects.some(result => result.oid === object.oid))
+    .forEach(object => {
+      onFileStatus(object.path, 'failed', 'The LFS server did not accept this file for upload');
+      failed.push(object.path);
+    });
+
+  if (failed.length > 0) throw failedUploadsError(failed, objects.length);
+};
+
+// Push every file as a single commit through the Hub's NDJSON commit endpoint.
+// Binary, large and weight-like files are stored via LFS first and committed as pointers.
+export const commitToSpace = async (
+  token: string,
+  repoId: string,
+  files: HuggingFaceFile[],
+  summary: string,
+  onProgress: (message: string) => void = () => {},
+  control: UploadControl = {}
+) => {
+  const { signal, onFileStatus = () => {} } = control;
+  const lfsObjects: LfsObject[] = [];
+  for (const file of files.filter(needsLfs)) {
+    const bytes = contentToBytes(file.content, file.encoding);
+    lfsObjects.push({ path: file.path, oid: await sha256Hex(bytes), size: bytes.length, bytes });
+  }
+  if (lfsObjects.length > 0) {
+    await uploadLfsObjects(token, 'space', repoId, lfsObjects, onProgress, control);
+  }
+
+  const body = [
+    { key: 'header', value: { summary, description: '' } },
+    ...files.map(file => {
+      const lfs = lfsObjects.find(object => object.path === file.path);
+      return lfs
+        ? { key: 'lfsFile', value: { path: file.path, algo: 'sha256', oid: lfs.oid, size: lfs.size } }
+        : { key: 'file', value: { path: file.path, content: contentToBase64(file.content, file.encoding), encoding: 'base64' } };
+    })
+  ].map(line => JSON.stringify(line)).join('\n');
+
+  // Regular files travel inside the commit request itself
+  const inlinePaths = files.map(file => file.path).filter(path => !lfsObjects.some(object => object.path === path));
+  inlinePaths.forEach(path => onFileStatus(path, 'uploading'));
+
+  onProgress(`Committing ${files.length} files...`);
+  const response = await fetchWhileProvisioning(`${HF_API}/spaces/${repoId}/commit/main`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/x-ndjson'
+    },
+    body
+  });
+
+  if (response.ok) {
+    inlinePaths.forEach(path => onFileStatus(path, 'done'));
+    return response.json();
+  }
+
+  const message = await readError(
+    response,
+    `Failed to commit to ${repoId}. Status ${response.status}. ` +
+    `If this is your FIRST upload to a new Space, it can take up to a minute for provisioning.`
+  );
+  inlinePaths.forEach(path => onFileStatus(path, 'failed', message));
+  throw new Error(message);
+};
+
+interface HuggingFaceTreeEntry {
+  type: 'file' | 'directory';
+  path: string;
+  size: number;
+  lfs?: { oid: string; size: number };
+}
+
+// Accepts owner/name, a huggingface.co URL, or spaces/, datasets/ and models/ prefixed ids.
+// In /tree/<revision>/<path> URLs the revision is one segment (the Hub encodes slashes in
+// branch names as %2F) and whatever follows is a folder inside the repo.
+export const parseHuggingFaceRepoInput = (
+  input: string,
+  fallbackType: HuggingFaceRepoType
+): { repoId: string; type: HuggingFaceRepoType; revision?: string; path?: string } | null => {
+  const isUrl = /^https?:\/\//.test(input.trim());
+  const value = input.trim().replace(/^https?:\/\/(?:www\.)?huggingface\.co\//, '').replace(/\/+$/, '');
+  const match = value.match(/^(?:(spaces|datasets|models)\/)?([\w.-]+\/[\w.-]+)(?:\/tree\/([^/]+)(?:\/(.+))?|@(.+))?$/);
+  if (!match) return null;
+
+  // Unprefixed huggingface.co URLs point at models
+  const types: Record<string, HuggingFaceRepoType> = { spaces: 'space', datasets: 'dataset', models: 'model' };
+  try {
+    return {
+      repoId: match[2],
+      type: match[1] ? types[match[1]] : isUrl ? 'model' : fallbackType,
+      revision: match[3] ? decodeURIComponent(match[3]) : match[5],
+      path: match[4] && match[4].split('/').map(decodeURIComponent).join('/')
+    };
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+};
+
+// The same LFS pointer text git stores in place of a large file
+const lfsPointer = (lfs: { oid: string; size: number }) =>
+  `version https://git-lfs.github.com/spec/v1\noid sha256:${lfs.oid}\nsize ${lfs.size}\n`;
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+// List every entry of a repo (or of one folder in it), following the Link header the tree endpoint paginates with
+const listRepoTree = async (
+  token: string,
+  type: HuggingFaceRepoType,
+  repoId: string,
+  revision: string,
+  path: string,
+  signal?: AbortSignal
+) => {
+  const entries: HuggingFaceTreeEntry[] = [];
+  const folder = path ? `/${encodePath(path)}` : '';
+  let url = `${HF_API}/${type}s/${repoId}/tree/${encodeURIComponent(revision)}${folder}?recursive=true`;
+
+  while (url) {
+    const response = await fetch(url, {
+      signal,
+      headers: token ? { 'Authorization': `Bearer ${token}` } : {}
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, `Failed to read ${repoId}. Status ${response.status}`));
+    }
+
+    entries.push(...await response.json());
+    const next = response.headers.get('Link')?.match(/<([^>]+)>;\s*rel="next"/);
+    url = next ? next[1] : '';
+  }
+
+  return entries;
+};
+
+// Read a Hub repo, or the folder at `path` in it, into FileNodes. LFS files are not
+// downloaded; they come in as pointer text. Other files are fetched a few at a time.
+export const importHuggingFaceRepo = async (
+  token: string,
+  type: HuggingFaceRepoType,
+  repoId: string,
+  revision = 'main',
+  { path = '', signal, onProgress }: {
+    path?: string;
+    signal?: AbortSignal;
+    onProgress?: (done: number, total: number) => void;
+  } = {}
+): Promise<FileNode[]> => {
+  const tree = await listRepoTree(token, type, repoId, revision, path, signal);
+  const headers: Record<string, string> = token ? { 'Authorization': `Bearer ${token}` } : {};
+  // Entries are listed from the repo root; a folder import starts at that folder
+  const relativePath = (entryPath: string) => path ? entryPath.slice(path.length + 1) : entryPath;
+
+  const downloads = tree.filter(entry => entry.type === 'file' && !entry.lfs);
+  let done = 0;
+  onProgress?.(done, downloads.length);
+  const files = await mapWithConcurrency(downloads, IMPORT_CONCURRENCY, async (entry): Promise<PathEntry> => {
+    const response = await withRetries(async () => {
+      const response = await fetch(
+        `${HF_HOST}/${repoPath(type, repoId)}/resolve/${encodeURIComponent(revision)}/${encodePath(entry.path)}`,
+        { signal, headers }
+      );
+      if (!response.ok) {
+        const error = new Error(`Failed to download ${entry.path}. Status ${response.status}`) as Error & { status?: number };
+        error.status = response.status;
+        throw error;
+      }
+      return response;
+    }, { signal });
+    const file = decodeFileBytes(new Uint8Array(await response.arrayBuffer()));
+    onProgress?.(++done, downloads.length);
+    return { path: relativePath(entry.path), type: 'file', ...file };
+  }, signal);
+
+  // Keep the listing's own order, with folders and LFS pointers where the Hub lists them
+  const filesByPath = new Map(files.map(file => [file.path, file]));
+  const entries: PathEntry[] = tree.map(entry => {
+    const entryPath = relativePath(entry.path);
+    if (entry.type === 'directory') return { path: entryPath, type: 'folder' };
+    if (entry.lfs) return { path: entryPath, type: 'file', content: lfsPointer(entry.lfs), placeholder: true };
+    return filesByPath.get(entryPath);
+  });
+  return buildFileTree(entries);
+};
@@ -0,0 +1,58 @@
+import { FileEncoding } from '@/pages/Index';
+import { contentByteLength, isBinaryFile } from '@/lib/fileTree';
+
+// The Hub refuses regular (non-LFS) files above this size
+export const LFS_SIZE_THRESHOLD = 10 * 1024 * 1024;
+
+// Extensions the Hub tracks with LFS in a freshly created repository
+export const LFS_PATTERNS = [
+  '*.7z', '*.arrow', '*.bin', '*.bz2', '*.ckpt', '*.ftz', '*.gguf', '*.gz', '*.h5', '*.joblib',
+  '*.lfs.*', '*.mlmodel', '*.model', '*.msgpack', '*.npy', '*.npz', '*.onnx', '*.ot', '*.parquet',
+  '*.pb', '*.pickle', '*.pkl', '*.pt', '*.pth', '*.rar', '*.safetensors', '*.tar', '*.tflite',
+  '*.tgz', '*.wasm', '*.xz', '*.zip', '*.zst', '*tfevents*'
+];
+
+interface LfsCandidate {
+  path: string;
+  content: string;
+  encoding?: FileEncoding;
+}
+
+// Translate a gitattributes glob (only * is used above) into a file-name regex
+const patternToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+
+const LFS_PATTERN_REGEXPS = LFS_PATTERNS.map(pattern => ({ pattern, regexp: patternToRegExp(pattern) }));
+
+const matchingPattern = (path: string) => {
+  const fileName = path.split('/').pop() || path;
+  return LFS_PATTERN_REGEXPS.find(({ regexp }) => regexp.test(fileName))?.pattern;
+};
+
+export const matchesLfsPattern = (path: string) => !!matchingPattern(path);
+
+// Binary, large and weight-like files all have to go through LFS
+export const needsLfs = (file: LfsCandidate) =>
+  isBinaryFile(file) ||
+  matchesLfsPattern(file.path) ||
+  contentByteLength(file.content, file.encoding) > LFS_SIZE_THRESHOLD;
+
+const attributeLine = (pattern: string) => `${pattern} filter=lfs diff=lfs merge=lfs -text`;
+
+// Extend `existing` .gitattributes text with LFS rules for every path that needs them.
+// Paths outside the default patterns get an exact-path rule.
+export const buildLfsGitattributes = (lfsPaths: string[], existing = '') => {
+  const lines = existing.split('\n').map(line => line.trim()).filter(Boolean);
+  const rules = [
+    ...LFS_PATTERNS,
+    ...lfsPaths.filter(path => !matchesLfsPattern(path)).map(path => path.replace(/ /g, '[[:space:]]'))
+  ];
+
+  rules.forEach(rule => {
+    if (!lines.some(line => line.split(/\s+/)[0] === rule)) {
+      lines.push(attributeLine(rule));
+    }
+  });
+
+  return `${lines.join('\n')}\n`;
+};
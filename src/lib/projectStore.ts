@@ -0,0 +1,180 @@
+import { FileNode } from '@/pages/Index';
+import { generateNodeId } from '@/lib/fileTree';
+import { ProjectMetadata } from '@/lib/templateVariables';
+
+export interface StoredProject {
+  id: string;
+  name: string;
+  fileTree: FileNode[];
+  updatedAt: number;
+  // Missing on projects saved before descriptions and authors existed
+  metadata?: ProjectMetadata;
+}
+
+// A named copy of a project's files at one point in time
+export interface StoredSnapshot {
+  id: string;
+  projectId: string;
+  name: string;
+  fileTree: FileNode[];
+  createdAt: number;
+  // Taken by the app (e.g. before an export) rather than by the user
+  auto?: boolean;
+  // Paths the export sent, added files and overrides included; the tree itself is the editor's
+  publishedFiles?: string[];
+}
+
+// A starting point for new projects, saved from an existing one
+export interface StoredTemplate {
+  id: string;
+  name: string;
+  description: string;
+  fileTree: FileNode[];
+  createdAt: number;
+}
+
+const DB_NAME = 'file-structure-builder';
+const DB_VERSION = 3;
+const PROJECTS_STORE = 'projects';
+const SNAPSHOTS_STORE = 'snapshots';
+const TEMPLATES_STORE = 'templates';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Opened once and shared; a failed open is retried on the next call
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser does not support IndexedDB, so projects cannot be saved'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(PROJECTS_STORE)) {
+          database.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!database.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          database.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+        }
+        if (!database.objectStoreNames.contains(TEMPLATES_STORE)) {
+          database.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Close other tabs of the app to finish upgrading saved projects'));
+    }).catch(error => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+const objectStore = async (name: string, mode: IDBTransactionMode) => {
+  const database = await openDatabase();
+  return database.transaction(name, mode).objectStore(name);
+};
+
+const projectsStore = (mode: IDBTransactionMode) => objectStore(PROJECTS_STORE, mode);
+
+const snapshotsStore = (mode: IDBTransactionMode) => objectStore(SNAPSHOTS_STORE, mode);
+
+const templatesStore = (mode: IDBTransactionMode) => objectStore(TEMPLATES_STORE, mode);
+
+export const loadProject = async (id: string): Promise<StoredProject | undefined> =>
+  requestResult((await projectsStore('readonly')).get(id));
+
+export const saveProject = async (project: StoredProject) => {
+  await requestResult((await projectsStore('readwrite')).put(project));
+};
+
+// Most recently edited first
+export const listProjects = async (): Promise<StoredProject[]> => {
+  const projects: StoredProject[] = await requestResult((await projectsStore('readonly')).getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Snapshots belong to their project and go with it
+export const deleteProject = async (id: string) => {
+  await requestResult((await projectsStore('readwrite')).delete(id));
+  const snapshots = await snapshotsStore('readwrite');
+  // Deleted from the cursor callback so the transaction stays active throughout
+  await new Promise<void>((resolve, reject) => {
+    const request = snapshots.index('projectId').openKeyCursor(IDBKeyRange.only(id));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      snapshots.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const createProject = async (name: string, fileTree: FileNode[]) => {
+  const project: StoredProject = { id: generateNodeId(), name, fileTree, updatedAt: Date.now() };
+  await saveProject(project);
+  return project;
+};
+
+export const duplicateProject = async (project: StoredProject, name = `${project.name}-copy`) => {
+  const copy: StoredProject = { ...project, id: generateNodeId(), name, updatedAt: Date.now() };
+  await saveProject(copy);
+  return copy;
+};
+
+export const renameProject = async (project: StoredProject, name: string) => {
+  const renamed = { ...project, name, updatedAt: Date.now() };
+  await saveProject(renamed);
+  return renamed;
+};
+
+// Newest first
+export const listSnapshots = async (projectId: string): Promise<StoredSnapshot[]> => {
+  const snapshots: StoredSnapshot[] = await requestResult((await snapshotsStore('readonly')).index('projectId').getAll(projectId));
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const createSnapshot = async (
+  projectId: string,
+  name: string,
+  fileTree: FileNode[],
+  auto = false,
+  publishedFiles?: string[]
+) => {
+  const snapshot: StoredSnapshot = { id: generateNodeId(), projectId, name, fileTree, createdAt: Date.now(), auto, publishedFiles };
+  await requestResult((await snapshotsStore('readwrite')).put(snapshot));
+  return snapshot;
+};
+
+export const deleteSnapshot = async (id: string) => {
+  await requestResult((await snapshotsStore('readwrite')).delete(id));
+};
+
+// Oldest first, so the gallery keeps a stable order
+export const listTemplates = async (): Promise<StoredTemplate[]> => {
+  const templates: StoredTemplate[] = await requestResult((await templatesStore('readonly')).getAll());
+  return templates.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const createTemplate = async (name: string, description: string, fileTree: FileNode[]) => {
+  const template: StoredTemplate = { id: generateNodeId(), name, description, fileTree, createdAt: Date.now() };
+  await requestResult((await templatesStore('readwrite')).put(template));
+  return template;
+};
+
+export const deleteTemplate = async (id: string) => {
+  await requestResult((await templatesStore('readwrite')).delete(id));
+};
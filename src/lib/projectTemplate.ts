@@ -0,0 +1,127 @@
+import { FileNode } from '@/pages/Index';
+import { RepositoryFile, convertFileTreeToGitHubFiles } from '@/lib/github';
+import { isBinaryFile } from '@/lib/fileTree';
+
+export type TemplateFormat = 'cookiecutter' | 'copier';
+
+export interface TemplateVariable {
+  name: string;
+  value: string;
+}
+
+// Copier only renders files carrying this suffix
+const COPIER_SUFFIX = '.jinja';
+const COPIER_SUBDIRECTORY = 'template';
+
+// Parse "name=value" lines; blank lines and # comments are skipped
+export const parseTemplateVariables = (text: string): { variables: TemplateVariable[]; errors: string[] } => {
+  const variables: TemplateVariable[] = [];
+  const errors: string[] = [];
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const separator = line.indexOf('=');
+    const name = separator > 0 ? line.slice(0, separator).trim() : '';
+    const value = separator > 0 ? line.slice(separator + 1).trim() : '';
+    if (!/^[A-Za-z_]\w*$/.test(name) || !value) {
+      errors.push(`Line ${index + 1}: expected name=value`);
+      return;
+    }
+    variables.push({ name, value });
+  });
+
+  return { variables, errors };
+};
+
+// Existing Jinja delimiters (GitHub Actions expressions, Vue templates...) must come out literally
+const escapeJinja = (text: string) =>
+  text.replace(/\{\{|\}\}|\{%|%\}|\{#|#\}/g, delimiter => `{{ '${delimiter}' }}`);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Replace every variable value in `text`, longest values first so overlapping strings resolve sensibly
+const substituteVariables = (text: string, variables: TemplateVariable[], placeholder: (name: string) => string) => {
+  const sorted = [...variables].sort((a, b) => b.value.length - a.value.length);
+  if (sorted.length === 0) return { text, replaced: false };
+
+  const byValue = new Map(sorted.map(variable => [variable.value, variable.name]));
+  const pattern = new RegExp(sorted.map(variable => escapeRegExp(variable.value)).join('|'), 'g');
+  let replaced = false;
+  const result = text.replace(pattern, match => {
+    replaced = true;
+    return placeholder(byValue.get(match));
+  });
+  return { text: result, replaced };
+};
+
+const buildCookiecutterJson = (variables: TemplateVariable[]) =>
+  `${JSON.stringify(Object.fromEntries(variables.map(variable => [variable.name, variable.value])), null, 2)}\n`;
+
+// JSON strings are valid double-quoted YAML scalars
+const buildCopierYml = (variables: TemplateVariable[]) => [
+  `_subdirectory: ${COPIER_SUBDIRECTORY}`,
+  '',
+  ...variables.flatMap(variable => [
+    `${variable.name}:`,
+    '  type: str',
+    `  default: ${JSON.stringify(variable.value)}`,
+    ''
+  ])
+].join('\n');
+
+// Turn the project into Cookiecutter or Copier template files. projectName always
+// becomes the project_name variable; `variables` adds any other strings to parameterize.
+export const createTemplateFiles = (
+  projectName: string,
+  fileTree: FileNode[],
+  format: TemplateFormat,
+  variables: TemplateVariable[]
+): Record<string, RepositoryFile> => {
+  const allVariables = [
+    variables.find(variable => variable.name === 'project_name') || { name: 'project_name', value: projectName },
+    ...variables.filter(variable => variable.name !== 'project_name')
+  ];
+
+  const placeholder = format === 'cookiecutter'
+    ? (name: string) => `{{cookiecutter.${name}}}`
+    : (name: string) => `{{ ${name} }}`;
+
+  const result: Record<string, RepositoryFile> = {};
+  Object.entries(convertFileTreeToGitHubFiles(fileTree)).forEach(([path, file]) => {
+    // Both tools render file and folder names
+    const templatedPath = path
+      .split('/')
+      .map(segment => substituteVariables(escapeJinja(segment), allVariables, placeholder).text)
+      .join('/');
+
+    const root = format === 'cookiecutter' ? '{{cookiecutter.project_name}}' : COPIER_SUBDIRECTORY;
+    if (isBinaryFile(file)) {
+      // Both tools detect binary files and copy them without rendering
+      result[`${root}/${templatedPath}`] = file;
+      return;
+    }
+
+    if (format === 'cookiecutter') {
+      // Cookiecutter renders every text file, so everything is escaped before substitution
+      const content = substituteVariables(escapeJinja(file.content), allVariables, placeholder).text;
+      result[`${root}/${templatedPath}`] = { content };
+      return;
+    }
+
+    // Copier copies files verbatim unless they carry the .jinja suffix
+    const substituted = substituteVariables(escapeJinja(file.content), allVariables, placeholder);
+    result[`${root}/${templatedPath}${substituted.replaced ? COPIER_SUFFIX : ''}`] = {
+      content: substituted.replaced ? substituted.text : file.content
+    };
+  });
+
+  if (format === 'cookiecutter') {
+    result['cookiecutter.json'] = { content: buildCookiecutterJson(allVariables) };
+  } else {
+    result['copier.yml'] = { content: buildCopierYml(allVariables) };
+  }
+
+  return result;
+};
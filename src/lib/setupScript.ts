@@ -0,0 +1,108 @@
+import { FileEncoding, FileNode } from '@/pages/Index';
+import { isBinaryFile } from '@/lib/fileTree';
+
+export interface SetupScriptOptions {
+  gitInit: boolean;
+  commitMessage: string;
+}
+
+interface ScriptFile {
+  content: string;
+  encoding?: FileEncoding;
+}
+
+// Every file as it is in the editor (empty ones stay empty) and every folder, empty ones included
+const collectEntries = (
+  nodes: FileNode[],
+  basePath = '',
+  result: { files: Record<string, ScriptFile>; directories: string[] } = { files: {}, directories: [] }
+) => {
+  nodes.forEach(node => {
+    const path = basePath ? `${basePath}/${node.name}` : node.name;
+    if (node.type === 'folder') {
+      result.directories.push(path);
+      collectEntries(node.children || [], path, result);
+    } else {
+      result.files[path] = { content: node.content || '', encoding: node.encoding };
+    }
+  });
+  return result;
+};
+
+// Single-quote a value for bash; embedded quotes become '\''
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+// Scripts and anything with a shebang should stay runnable after setup
+const isExecutable = (path: string, content: string) =>
+  content.startsWith('#!') || /\.(sh|bash|zsh|command)$/.test(path);
+
+// Pick a heredoc terminator that never appears as a line of the content
+const heredocDelimiter = (content: string) => {
+  const lines = new Set(content.split('\n'));
+  let delimiter = 'FSB_EOF';
+  for (let i = 1; lines.has(delimiter); i++) {
+    delimiter = `FSB_EOF_${i}`;
+  }
+  return delimiter;
+};
+
+const writeFileCommand = (path: string, { content, encoding }: ScriptFile) => {
+  if (!content) return `: > ${shellQuote(path)}`;
+
+  // Binary files travel as wrapped base64; its alphabet can never collide with the terminator
+  if (isBinaryFile({ encoding })) {
+    return `base64 -d > ${shellQuote(path)} <<'FSB_EOF'\n${content.replace(/.{1,76}/g, '$&\n')}FSB_EOF`;
+  }
+
+  const delimiter = heredocDelimiter(content);
+  // A heredoc always ends with a newline, so content without one goes through printf
+  if (content.endsWith('\n')) {
+    return `cat > ${shellQuote(path)} <<'${delimiter}'\n${content}${delimiter}`;
+  }
+  return `printf '%s' "$(cat <<'${delimiter}'\n${content}\n${delimiter}\n)" > ${shellQuote(path)}`;
+};
+
+// Build a bash script that recreates the project in a directory (the project name by default)
+export const createSetupScript = (projectName: string, fileTree: FileNode[], options: SetupScriptOptions) => {
+  const { files, directories } = collectEntries(fileTree);
+  const paths = Object.keys(files);
+
+  const lines = [
+    '#!/usr/bin/env bash',
+    `# Recreates the "${projectName}" project. Generated by File Structure Builder.`,
+    '# Usage: bash setup.sh [target-directory]',
+    'set -euo pipefail',
+    '',
+    `DEFAULT_DIR=${shellQuote(projectName)}`,
+    'TARGET_DIR="${1:-$DEFAULT_DIR}"',
+    'mkdir -p -- "$TARGET_DIR"',
+    'cd -- "$TARGET_DIR"',
+    ''
+  ];
+
+  if (directories.length > 0) {
+    lines.push(...directories.sort().map(directory => `mkdir -p -- ${shellQuote(directory)}`), '');
+  }
+
+  paths.forEach(path => {
+    lines.push(writeFileCommand(path, files[path]));
+    if (!isBinaryFile(files[path]) && isExecutable(path, files[path].content)) {
+      lines.push(`chmod +x -- ${shellQuote(path)}`);
+    }
+    lines.push('');
+  });
+
+  if (options.gitInit) {
+    lines.push(
+      'if command -v git >/dev/null 2>&1; then',
+      '  git init -q',
+      '  git add -A',
+      `  git commit -q -m ${shellQuote(options.commitMessage)} || echo "Skipped the first commit; set git user.name and user.email to create it" >&2`,
+      'fi',
+      ''
+    );
+  }
+
+  lines.push(`echo "Created ${paths.length} files in $(pwd)"`, '');
+  return lines.join('\n');
+};
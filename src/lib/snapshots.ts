@@ -0,0 +1,125 @@
+import { FileNode } from '@/pages/Index';
+import { filesByPath, findNode, generateNodeId } from '@/lib/fileTree';
+
+export type FileChangeStatus = 'added' | 'removed' | 'modified';
+
+// How a file differs between a snapshot and the current tree
+export interface FileChange {
+  path: string;
+  status: FileChangeStatus;
+  snapshot: FileNode | null;
+  current: FileNode | null;
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many line pairs a text diff is skipped rather than freezing the page
+const MAX_DIFF_CELLS = 1_000_000;
+
+const sameContent = (a: FileNode, b: FileNode) => a.content === b.content && a.encoding === b.encoding;
+
+// Added and removed are seen from the snapshot: "added" exists only in the current tree
+export const diffTrees = (snapshotTree: FileNode[], currentTree: FileNode[]): FileChange[] => {
+  const before = filesByPath(snapshotTree);
+  const after = filesByPath(currentTree);
+  const changes: FileChange[] = [];
+
+  before.forEach((file, path) => {
+    const current = after.get(path);
+    if (!current) {
+      changes.push({ path, status: 'removed', snapshot: file, current: null });
+    } else if (!sameContent(file, current)) {
+      changes.push({ path, status: 'modified', snapshot: file, current });
+    }
+  });
+  after.forEach((file, path) => {
+    if (!before.has(path)) changes.push({ path, status: 'added', snapshot: null, current: file });
+  });
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+// Line diff by longest common subsequence; null when the files are too large to compare
+export const diffLines = (before: string, after: string): DiffLine[] | null => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Shared leading and trailing lines need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if ((midA.length + 1) * (midB.length + 1) > MAX_DIFF_CELLS) return null;
+
+  // lengths[i * width + j] = LCS length of midA[i..] and midB[j..]
+  const width = midB.length + 1;
+  const lengths = new Uint32Array((midA.length + 1) * width);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      lines.push({ type: 'same', text: midA[i++] });
+      j++;
+    } else if (i < midA.length && (j === midB.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      lines.push({ type: 'removed', text: midA[i++] });
+    } else {
+      lines.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  a.slice(endA).forEach(text => lines.push({ type: 'same', text }));
+  return lines;
+};
+
+const removeAtPath = (nodes: FileNode[], segments: string[]): FileNode[] => {
+  const [name, ...rest] = segments;
+  if (rest.length === 0) return nodes.filter(node => node.name !== name);
+  return nodes.map(node =>
+    node.name === name && node.children ? { ...node, children: removeAtPath(node.children, rest) } : node
+  );
+};
+
+const putAtPath = (nodes: FileNode[], segments: string[], file: FileNode, parentId?: string): FileNode[] => {
+  const [name, ...rest] = segments;
+  const index = nodes.findIndex(node => node.name === name && (rest.length > 0 ? node.type === 'folder' : true));
+
+  if (rest.length === 0) {
+    const restored = { ...file, id: index >= 0 ? nodes[index].id : file.id, name, parent: parentId, children: undefined };
+    return index >= 0 ? nodes.map((node, i) => i === index ? restored : node) : [...nodes, restored];
+  }
+
+  // Folders the file lived in may be gone by now
+  const folder: FileNode = index >= 0
+    ? nodes[index]
+    : { id: generateNodeId(), name, type: 'folder', children: [], parent: parentId };
+  const updated = { ...folder, children: putAtPath(folder.children || [], rest, file, folder.id) };
+  return index >= 0 ? nodes.map((node, i) => i === index ? updated : node) : [...nodes, updated];
+};
+
+// Put one file back the way the snapshot has it; a file the snapshot lacks is removed
+export const restoreFile = (tree: FileNode[], change: FileChange): FileNode[] => {
+  const segments = change.path.split('/');
+  if (!change.snapshot) return removeAtPath(tree, segments);
+
+  // Reusing the snapshot's id keeps the file's text history, unless that id is now taken
+  const id = findNode(tree, change.snapshot.id) ? generateNodeId() : change.snapshot.id;
+  return putAtPath(tree, segments, { ...change.snapshot, id });
+};
@@ -0,0 +1,447 @@
+import { FileNode } from '@/pages/Index';
+import { PathEntry, buildFileTree } from '@/lib/fileTree';
+import { markTemplated } from '@/lib/templateVariables';
+
+export interface StarterTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Contents and paths use placeholders such as {{project_name}}, so they follow later renames
+  files: Record<string, string>;
+}
+
+const PYTHON_GITIGNORE = `__pycache__/
+*.py[cod]
+.venv/
+venv/
+.env
+*.egg-info/
+dist/
+build/
+.pytest_cache/
+`;
+
+const NODE_GITIGNORE = `node_modules/
+dist/
+.env
+*.log
+`;
+
+const spaceReadme = (sdk: string, runCommand: string) => `# {{project_name}}
+
+A ${sdk} app, ready to run locally or as a Hugging Face Space.
+
+## Run locally
+
+\`\`\`bash
+pip install -r requirements.txt
+${runCommand}
+\`\`\`
+`;
+
+export const STARTER_TEMPLATES: StarterTemplate[] = [
+  {
+    id: 'blank',
+    name: 'Blank',
+    description: 'Just a README to start from',
+    files: {
+      'README.md': `# {{project_name}}\n`
+    }
+  },
+  {
+    id: 'python-script',
+    name: 'Python Script',
+    description: 'A single entry point under src/',
+    files: {
+      'src/main.py': '# Welcome to your new project!\nprint("Hello, World!")',
+      'README.md': `# {{project_name}}\n\nA new project created with File Structure Builder.`
+    }
+  },
+  {
+    id: 'gradio',
+    name: 'Gradio App',
+    description: 'Interactive ML demo; matches the Gradio Space SDK',
+    files: {
+      'app.py': `import gradio as gr
+
+
+def greet(name: str, intensity: int) -> str:
+    return "Hello, " + name + "!" * intensity
+
+
+demo = gr.Interface(
+    fn=greet,
+    inputs=[gr.Textbox(label="Name"), gr.Slider(1, 10, value=1, step=1, label="Intensity")],
+    outputs=gr.Textbox(label="Greeting"),
+    title="{{project_name}}",
+)
+
+if __name__ == "__main__":
+    demo.launch()
+`,
+      'requirements.txt': 'gradio>=4.0\n',
+      'README.md': spaceReadme('Gradio', 'python app.py'),
+      '.gitignore': PYTHON_GITIGNORE
+    }
+  },
+  {
+    id: 'streamlit',
+    name: 'Streamlit App',
+    description: 'Data app with widgets and charts; matches the Streamlit Space SDK',
+    files: {
+      'app.py': `import numpy as np
+import pandas as pd
+import streamlit as st
+
+st.set_page_config(page_title="{{project_name}}")
+st.title("{{project_name}}")
+
+rows = st.slider("Number of points", min_value=10, max_value=500, value=100)
+data = pd.DataFrame(np.random.randn(rows, 3), columns=["a", "b", "c"])
+
+st.line_chart(data)
+
+if st.checkbox("Show raw data"):
+    st.dataframe(data)
+`,
+      'requirements.txt': 'streamlit>=1.30\npandas\nnumpy\n',
+      'README.md': spaceReadme('Streamlit', 'streamlit run app.py'),
+      '.gitignore': PYTHON_GITIGNORE
+    }
+  },
+  {
+    id: 'static',
+    name: 'Static Site',
+    description: 'Plain HTML, CSS and JavaScript; matches the Static Space SDK',
+    files: {
+      'index.html': `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>{{project_name}}</title>
+    <link rel="stylesheet" href="style.css" />
+  </head>
+  <body>
+    <main>
+      <h1>{{project_name}}</h1>
+      <button id="counter">Clicked 0 times</button>
+    </main>
+    <script src="script.js"></script>
+  </body>
+</html>
+`,
+      'style.css': `body {
+  font-family: system-ui, sans-serif;
+  display: flex;
+  justify-content: center;
+  padding: 4rem 1rem;
+}
+`,
+      'script.js': `let count = 0;
+const button = document.getElementById("counter");
+
+button.addEventListener("click", () => {
+  count += 1;
+  button.textContent = \`Clicked \${count} times\`;
+});
+`,
+      'README.md': `# {{project_name}}\n\nOpen \`index.html\` in a browser, or deploy it as a static Hugging Face Space.\n`
+    }
+  },
+  {
+    id: 'fastapi',
+    name: 'FastAPI Service',
+    description: 'REST API with a health check, tests and a Dockerfile',
+    files: {
+      'app/__init__.py': `"""{{project_name}} API."""\n`,
+      'app/main.py': `from fastapi import FastAPI, HTTPException
+from pydantic import BaseModel
+
+app = FastAPI(title="{{project_name}}")
+
+
+class Item(BaseModel):
+    name: str
+    price: float
+
+
+items: dict[int, Item] = {}
+
+
+@app.get("/health")
+def health() -> dict[str, str]:
+    return {"status": "ok"}
+
+
+@app.post("/items/{item_id}", status_code=201)
+def create_item(item_id: int, item: Item) -> Item:
+    items[item_id] = item
+    return item
+
+
+@app.get("/items/{item_id}")
+def read_item(item_id: int) -> Item:
+    if item_id not in items:
+        raise HTTPException(status_code=404, detail="Item not found")
+    return items[item_id]
+`,
+      'tests/test_main.py': `from fastapi.testclient import TestClient
+
+from app.main import app
+
+client = TestClient(app)
+
+
+def test_health():
+    response = client.get("/health")
+    assert response.status_code == 200
+    assert response.json() == {"status": "ok"}
+
+
+def test_missing_item():
+    assert client.get("/items/404").status_code == 404
+`,
+      'requirements.txt': 'fastapi>=0.110\nuvicorn[standard]\nhttpx\npytest\n',
+      'Dockerfile': `FROM python:3.12-slim
+
+WORKDIR /code
+COPY requirements.txt .
+RUN pip install --no-cache-dir -r requirements.txt
+COPY app ./app
+
+CMD ["uvicorn", "app.main:app", "--host", "0.0.0.0", "--port", "7860"]
+`,
+      'README.md': `# {{project_name}}
+
+## Run locally
+
+\`\`\`bash
+pip install -r requirements.txt
+uvicorn app.main:app --reload
+\`\`\`
+
+Interactive docs are served at http://localhost:8000/docs. Run the tests with \`pytest\`.
+`,
+      '.gitignore': PYTHON_GITIGNORE
+    }
+  },
+  {
+    id: 'python-package',
+    name: 'Python Package',
+    description: 'src layout with pyproject.toml and pytest',
+    files: {
+      'pyproject.toml': `[build-system]
+requires = ["hatchling"]
+build-backend = "hatchling.build"
+
+[project]
+name = "{{package_name}}"
+version = "0.1.0"
+description = "A short description of {{project_name}}"
+readme = "README.md"
+requires-python = ">=3.9"
+dependencies = []
+
+[project.optional-dependencies]
+dev = ["pytest"]
+
+[tool.hatch.build.targets.wheel]
+packages = ["src/{{module_name}}"]
+`,
+      'src/{{module_name}}/__init__.py': `from .core import greet
+
+__all__ = ["greet"]
+__version__ = "0.1.0"
+`,
+      'src/{{module_name}}/core.py': `def greet(name: str) -> str:
+    """Return a friendly greeting for \`name\`."""
+    return f"Hello, {name}!"
+`,
+      'tests/test_core.py': `from {{module_name}} import greet
+
+
+def test_greet():
+    assert greet("World") == "Hello, World!"
+`,
+      'README.md': `# {{project_name}}
+
+\`\`\`bash
+pip install -e ".[dev]"
+pytest
+\`\`\`
+`,
+      '.gitignore': PYTHON_GITIGNORE
+    }
+  },
+  {
+    id: 'vite-react',
+    name: 'Vite React App',
+    description: 'React and TypeScript on Vite',
+    files: {
+      'package.json': `${JSON.stringify({
+        name: '{{package_name}}',
+        private: true,
+        version: '0.0.0',
+        type: 'module',
+        scripts: { dev: 'vite', build: 'tsc && vite build', preview: 'vite preview' },
+        dependencies: { react: '^18.3.1', 'react-dom': '^18.3.1' },
+        devDependencies: {
+          '@types/react': '^18.3.3',
+          '@types/react-dom': '^18.3.0',
+          '@vitejs/plugin-react': '^4.3.1',
+          typescript: '^5.5.3',
+          vite: '^5.4.1'
+        }
+      }, null, 2)}\n`,
+      'index.html': `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>{{project_name}}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`,
+      'vite.config.ts': `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});
+`,
+      'tsconfig.json': `${JSON.stringify({
+        compilerOptions: {
+          target: 'ES2020',
+          lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+          module: 'ESNext',
+          moduleResolution: 'bundler',
+          jsx: 'react-jsx',
+          strict: true,
+          noEmit: true,
+          skipLibCheck: true
+        },
+        include: ['src']
+      }, null, 2)}\n`,
+      'src/main.tsx': `import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import App from './App';
+import './index.css';
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <App />
+  </StrictMode>
+);
+`,
+      'src/App.tsx': `import { useState } from 'react';
+
+const App = () => {
+  const [count, setCount] = useState(0);
+
+  return (
+    <main>
+      <h1>{{project_name}}</h1>
+      <button onClick={() => setCount(count + 1)}>Clicked {count} times</button>
+    </main>
+  );
+};
+
+export default App;
+`,
+      'src/index.css': `body {
+  font-family: system-ui, sans-serif;
+  margin: 0;
+  padding: 2rem;
+}
+`,
+      'README.md': `# {{project_name}}
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+`,
+      '.gitignore': NODE_GITIGNORE
+    }
+  },
+  {
+    id: 'node-cli',
+    name: 'Node CLI',
+    description: 'Command-line tool with argument parsing and no dependencies',
+    files: {
+      'package.json': `${JSON.stringify({
+        name: '{{package_name}}',
+        version: '0.1.0',
+        description: 'Command-line interface for {{project_name}}',
+        type: 'module',
+        bin: { '{{package_name}}': './bin/cli.js' },
+        files: ['bin', 'src'],
+        scripts: { start: 'node bin/cli.js', test: 'node --test' },
+        engines: { node: '>=18' }
+      }, null, 2)}\n`,
+      'bin/cli.js': `#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import { greet } from '../src/index.js';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    shout: { type: 'boolean', short: 's' },
+    help: { type: 'boolean', short: 'h' },
+  },
+});
+
+if (values.help) {
+  console.log('Usage: {{package_name}} [--shout] <name>');
+  process.exit(0);
+}
+
+console.log(greet(positionals[0] ?? 'World', { shout: values.shout }));
+`,
+      'src/index.js': `export const greet = (name, { shout = false } = {}) => {
+  const message = \`Hello, \${name}!\`;
+  return shout ? message.toUpperCase() : message;
+};
+`,
+      'test/index.test.js': `import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { greet } from '../src/index.js';
+
+test('greets by name', () => {
+  assert.equal(greet('Ada'), 'Hello, Ada!');
+});
+
+test('shouts when asked', () => {
+  assert.equal(greet('Ada', { shout: true }), 'HELLO, ADA!');
+});
+`,
+      'README.md': `# {{project_name}}
+
+\`\`\`bash
+npm link
+{{package_name}} --shout Ada
+npm test
+\`\`\`
+`,
+      '.gitignore': NODE_GITIGNORE
+    }
+  }
+];
+
+export const DEFAULT_TEMPLATE_ID = 'python-script';
+
+export const getStarterTemplate = (id: string) => STARTER_TEMPLATES.find(template => template.id === id);
+
+export const buildStarterTree = (template: StarterTemplate): FileNode[] => {
+  const entries: PathEntry[] = Object.entries(template.files).map(([path, content]) => ({
+    path,
+    type: 'file',
+    content
+  }));
+  return markTemplated(buildFileTree(entries));
+};
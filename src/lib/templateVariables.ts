@@ -0,0 +1,72 @@
+import { FileNode } from '@/pages/Index';
+import { isBinaryFile } from '@/lib/fileTree';
+
+// Project details that placeholders can refer to, besides the name
+export interface ProjectMetadata {
+  description: string;
+  author: string;
+}
+
+export const EMPTY_METADATA: ProjectMetadata = { description: '', author: '' };
+
+export type TemplateValues = Record<string, string>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+// A valid Python import name, e.g. "My Project" -> my_project
+export const toPythonName = (projectName: string) => {
+  const name = projectName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[a-z_]/.test(name) ? name : `pkg_${name}`;
+};
+
+// A valid npm package name, e.g. "My Project" -> my-project
+export const toPackageName = (projectName: string) =>
+  projectName.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^[-._]+|-+$/g, '') || 'my-project';
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'project_name', description: 'Project name as shown in the header' },
+  { name: 'description', description: 'Project description' },
+  { name: 'author', description: 'Project author' },
+  { name: 'year', description: 'Current year' },
+  { name: 'package_name', description: 'Project name as an npm/PyPI package name' },
+  { name: 'module_name', description: 'Project name as a Python module name' }
+];
+
+export const templateValues = (projectName: string, metadata: ProjectMetadata, now = new Date()): TemplateValues => ({
+  project_name: projectName,
+  description: metadata.description,
+  author: metadata.author,
+  year: String(now.getFullYear()),
+  package_name: toPackageName(projectName),
+  module_name: toPythonName(projectName)
+});
+
+export const hasPlaceholders = (text: string) => new RegExp(PLACEHOLDER_PATTERN.source).test(text);
+
+// Unknown placeholders and ones whose value is empty are left alone; only own keys
+// count, so {{constructor}} or {{__proto__}} never pick up Object.prototype members
+export const resolvePlaceholders = (text: string, values: TemplateValues) =>
+  text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    (Object.prototype.hasOwnProperty.call(values, name) && values[name]) || placeholder);
+
+// Only nodes that opted in are resolved, so Jinja, Handlebars or Vue templates in the project stay intact
+export const resolveFileTree = (nodes: FileNode[], values: TemplateValues): FileNode[] =>
+  nodes.map(node => {
+    const children = node.children && resolveFileTree(node.children, values);
+    if (!node.templated) return children ? { ...node, children } : node;
+
+    return {
+      ...node,
+      name: resolvePlaceholders(node.name, values).trim() || node.name,
+      content: node.content && !isBinaryFile(node) ? resolvePlaceholders(node.content, values) : node.content,
+      ...(children && { children })
+    };
+  });
+
+// Opt a whole tree in, e.g. one created from a starter template
+export const markTemplated = (nodes: FileNode[]): FileNode[] =>
+  nodes.map(node => ({
+    ...node,
+    templated: true,
+    ...(node.children && { children: markTemplated(node.children) })
+  }));
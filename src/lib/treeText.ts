@@ -0,0 +1,148 @@
+import { FileNode } from '@/pages/Index';
+import { contentByteLength, isBinaryFile } from '@/lib/fileTree';
+import { formatBytes } from '@/lib/utils';
+
+export type TreeAnnotation = 'none' | 'lines' | 'size';
+
+export interface TreeTextOptions {
+  rootName?: string;
+  foldersFirst?: boolean;
+  // Folders deeper than this are collapsed to a count; 0 means no limit
+  maxDepth?: number;
+  annotation?: TreeAnnotation;
+}
+
+// Annotations need at least two spaces before the # so names containing "#" survive
+const ANNOTATION_PATTERN = /\s{2,}#.*$/;
+
+// Indentation and tree-drawing characters in front of a name; each level takes four columns
+const TREE_PREFIX_PATTERN = /^[\s│├└─]*/;
+
+// Parse a ├──/└── tree diagram into FileNodes
+export const parseTreeText = (text: string): FileNode[] => {
+  const lines = text.split('\n').filter(line => line.trim());
+  const result: FileNode[] = [];
+  const stack: { node: FileNode; depth: number }[] = [];
+  
+  for (const rawLine of lines) {
+    // Drop trailing "  # note" annotations, as written by renderTreeText
+    const line = rawLine.replace(ANNOTATION_PATTERN, '');
+
+    // Skip the root project name line if it exists
+    if (line.includes('/') && !/^[\s├└│]/.test(line)) {
+      continue;
+    }
+    
+    // Depth comes from the drawing in front of the name; the name itself is kept as written
+    const prefix = line.match(TREE_PREFIX_PATTERN)[0];
+    const depth = prefix.length / 4;
+
+    let name = line.slice(prefix.length).trimEnd();
+    const isFolder = name.endsWith('/');
+    if (isFolder) {
+      name = name.slice(0, -1);
+    }
+    
+    if (!name) continue;
+
+    const fileExtension = name.includes('.') ? name.split('.').pop() : '';
+    
+    // Create content based on file type
+    let content = '';
+    if (!isFolder) {
+      if (fileExtension === 'py') {
+        content = `# ${name}\n# TODO: Implement functionality`;
+      } else if (fileExtension === 'txt') {
+        content = `# Requirements for ${name.replace('.txt', '')}\n# Add your dependencies here`;
+      } else if (fileExtension === 'md') {
+        content = `# ${name.replace('.md', '')}\n\nProject description goes here.`;
+      } else if (fileExtension === 'json') {
+        content = '{\n  "// TODO": "Add configuration"\n}';
+      } else if (name === 'Dockerfile') {
+        content = 'FROM python:3.9\n\n# TODO: Add Dockerfile instructions';
+      } else {
+        content = `# ${name}\n# TODO: Add content`;
+      }
+    }
+    
+    const newNode: FileNode = {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      name,
+      type: isFolder ? 'folder' : 'file',
+      content: isFolder ? undefined : content,
+      placeholder: isFolder ? undefined : true,
+      children: isFolder ? [] : undefined
+    };
+    
+    // Remove items from stack that are at the same or deeper level
+    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+      stack.pop();
+    }
+    
+    if (stack.length === 0) {
+      result.push(newNode);
+    } else {
+      const parent = stack[stack.length - 1].node;
+      if (parent.children) {
+        parent.children.push(newNode);
+        newNode.parent = parent.id;
+      }
+    }
+    
+    if (isFolder) {
+      stack.push({ node: newNode, depth });
+    }
+  }
+  
+  return result;
+};
+
+const countDescendants = (node: FileNode): number =>
+  (node.children || []).reduce((count, child) => count + 1 + countDescendants(child), 0);
+
+const annotate = (node: FileNode, annotation: TreeAnnotation) => {
+  if (node.type === 'folder' || annotation === 'none') return '';
+  const content = node.content || '';
+  if (annotation === 'size') return `  # ${formatBytes(contentByteLength(content, node.encoding))}`;
+  if (isBinaryFile(node)) return '  # binary';
+  const lineCount = content ? content.split('\n').length : 0;
+  return `  # ${lineCount} ${lineCount === 1 ? 'line' : 'lines'}`;
+};
+
+const sortNodes = (nodes: FileNode[], foldersFirst: boolean) => {
+  if (!foldersFirst) return nodes;
+  return [...nodes].sort((a, b) => {
+    if (a.type !== b.type) return a.type === 'folder' ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+};
+
+// Render FileNodes as the tree diagram parseTreeText reads. Without a depth
+// limit the output parses back to the same names, types and nesting.
+export const renderTreeText = (fileTree: FileNode[], options: TreeTextOptions = {}): string => {
+  const { rootName, foldersFirst = false, maxDepth = 0, annotation = 'none' } = options;
+  const lines: string[] = rootName ? [`${rootName}/`] : [];
+
+  const renderNodes = (nodes: FileNode[], prefix: string, depth: number) => {
+    const sorted = sortNodes(nodes, foldersFirst);
+    sorted.forEach((node, index) => {
+      const isLast = index === sorted.length - 1;
+      const branch = isLast ? '└── ' : '├── ';
+      const children = node.children || [];
+
+      if (node.type === 'folder') {
+        const collapsed = maxDepth > 0 && depth >= maxDepth && children.length > 0;
+        const note = collapsed ? `  # ${countDescendants(node)} more` : '';
+        lines.push(`${prefix}${branch}${node.name}/${note}`);
+        if (!collapsed) {
+          renderNodes(children, `${prefix}${isLast ? '    ' : '│   '}`, depth + 1);
+        }
+      } else {
+        lines.push(`${prefix}${branch}${node.name}${annotate(node, annotation)}`);
+      }
+    });
+  };
+
+  renderNodes(fileTree, '', 1);
+  return lines.join('\n');
+};
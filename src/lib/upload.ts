@@ -0,0 +1,97 @@
+export type FileUploadStatus = 'pending' | 'uploading' | 'retrying' | 'done' | 'failed';
+
+export type FileStatusCallback = (path: string, status: FileUploadStatus, error?: string) => void;
+
+// Work that survived a failed or cancelled attempt, so a retry can skip it
+export interface UploadCheckpoint {
+  // Content hashes (git blob shas, LFS oids) the remote already stores
+  uploaded: Set<string>;
+  // Remote resources created along the way, e.g. 'repo' -> owner/name
+  created: Map<string, string>;
+}
+
+export const createUploadCheckpoint = (): UploadCheckpoint => ({
+  uploaded: new Set(),
+  created: new Map()
+});
+
+export interface UploadControl {
+  signal?: AbortSignal;
+  onFileStatus?: FileStatusCallback;
+  checkpoint?: UploadCheckpoint;
+}
+
+// Wait `ms`, giving up with the abort reason as soon as `signal` fires
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Network failures surface as TypeError; rate limits and server errors carry a status
+const isTransientError = (error: unknown) => {
+  const status = (error as { status?: number } | null)?.status;
+  if (status === undefined) return error instanceof TypeError;
+  return status === 429 || status >= 500;
+};
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Run a single request, retrying transient failures with exponential backoff
+export const withRetries = async <T>(
+  run: () => Promise<T>,
+  options: { signal?: AbortSignal; onRetry?: (error: unknown) => void; tries?: number } = {}
+): Promise<T> => {
+  const { signal, onRetry, tries = 3 } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (signal?.aborted || attempt >= tries || !isTransientError(error)) throw error;
+      onRetry?.(error);
+      await sleep(1000 * 2 ** (attempt - 1), signal);
+    }
+  }
+};
+
+export const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Thrown once every file has been attempted and some of them still failed
+export const failedUploadsError = (failed: string[], total: number) =>
+  new Error(`${failed.length} of ${total} files failed to upload. Use "Retry failed" to resume.`);
+
+// Run `task` over `items` with at most `limit` in flight, keeping results in order.
+// The first failure (or an abort) stops any further items from starting.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (next < items.length && !failed) {
+      signal?.throwIfAborted();
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
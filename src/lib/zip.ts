@@ -0,0 +1,66 @@
+import JSZip from 'jszip';
+import { FileNode } from '@/pages/Index';
+import { PathEntry, buildFileTree, decodeFileBytes, isBinaryFile, stripCommonRoot } from '@/lib/fileTree';
+import { RepositoryFile } from '@/lib/github';
+
+// Recursively add nodes to a zip folder, keeping empty folders as directory entries
+const addNodesToZip = (folder: JSZip, nodes: FileNode[]) => {
+  nodes.forEach(node => {
+    if (node.type === 'file') {
+      folder.file(node.name, node.content || '', { base64: isBinaryFile(node) });
+    } else {
+      const subFolder = folder.folder(node.name);
+      addNodesToZip(subFolder, node.children || []);
+    }
+  });
+};
+
+// Build a .zip archive of the project with projectName as the root folder
+export const createProjectZip = async (projectName: string, fileTree: FileNode[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const root = zip.folder(projectName);
+  addNodesToZip(root, fileTree);
+
+  return zip.generateAsync({
+    type: 'blob',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 },
+  });
+};
+
+// Build a .zip archive from a flat path -> content map, all under rootName
+export const createFilesZip = async (rootName: string, files: Record<string, RepositoryFile>): Promise<Blob> => {
+  const zip = new JSZip();
+  const root = zip.folder(rootName);
+  Object.entries(files).forEach(([path, file]) => root.file(path, file.content, { base64: isBinaryFile(file) }));
+
+  return zip.generateAsync({
+    type: 'blob',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 },
+  });
+};
+
+// Archive entries added by operating systems that should never become nodes
+const isIgnoredZipEntry = (path: string) => {
+  const segments = path.split('/');
+  return segments.includes('__MACOSX') || segments[segments.length - 1] === '.DS_Store';
+};
+
+// Unpack a .zip archive into a FileNode tree. When every entry lives under a
+// single top-level folder (as in our own exports) that folder is unwrapped.
+export const importProjectZip = async (file: Blob): Promise<FileNode[]> => {
+  const zip = await JSZip.loadAsync(file);
+  const entries: PathEntry[] = [];
+
+  for (const entry of Object.values(zip.files)) {
+    if (isIgnoredZipEntry(entry.name)) continue;
+    if (entry.dir) {
+      entries.push({ path: entry.name, type: 'folder' });
+    } else {
+      entries.push({ path: entry.name, type: 'file', ...decodeFileBytes(await entry.async('uint8array')) });
+    }
+  }
+
+  return buildFileTree(stripCommonRoot(entries));
+};
@@ -1,68 +1,133 @@
 
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
 import { FileExplorer } from '@/components/FileExplorer';
 import { CodeEditor } from '@/components/CodeEditor';
 import { ProjectHeader } from '@/components/ProjectHeader';
 import { AuthPanel } from '@/components/AuthPanel';
 import { ExportPanel } from '@/components/ExportPanel';
+import { SnapshotPanel } from '@/components/SnapshotPanel';
+import { ProjectDetailsDialog } from '@/components/ProjectDetailsDialog';
+import { DEFAULT_GITLAB_URL } from '@/lib/gitlab';
+import { StoredProject, createSnapshot } from '@/lib/projectStore';
+import { findNode, updateNode } from '@/lib/fileTree';
+import { ExportProvider } from '@/lib/exporters';
+import { EMPTY_METADATA, ProjectMetadata, resolveFileTree, templateValues } from '@/lib/templateVariables';
+import { useAutosave } from '@/hooks/use-autosave';
+import { useFileHistory } from '@/hooks/use-file-history';
+
+export type FileEncoding = 'utf-8' | 'base64';
 
 export interface FileNode {
   id: string;
   name: string;
   type: 'file' | 'folder';
   content?: string;
+  // Binary files keep their bytes base64-encoded in `content`
+  encoding?: FileEncoding;
+  // Generated stand-in content (e.g. from a pasted tree or an LFS pointer), not the real file
+  placeholder?: boolean;
+  // Opted in to having {{project_name}}-style placeholders in its name and content filled in on export
+  templated?: boolean;
   children?: FileNode[];
   parent?: string;
 }
 
 const Index = () => {
-  const [projectName, setProjectName] = useState('my-project');
-  const [fileTree, setFileTree] = useState<FileNode[]>([
-    {
-      id: '1',
-      name: 'src',
-      type: 'folder',
-      children: [
-        {
-          id: '2',
-          name: 'main.py',
-          type: 'file',
-          content: '# Welcome to your new project!\nprint("Hello, World!")',
-          parent: '1'
-        }
-      ]
-    },
-    {
-      id: '3',
-      name: 'README.md',
-      type: 'file',
-      content: `# ${projectName}\n\nA new project created with File Structure Builder.`,
-    }
-  ]);
+  const { id: projectId = '' } = useParams();
+  const [projectName, setProjectName] = useState('');
+  const [metadata, setMetadata] = useState<ProjectMetadata>(EMPTY_METADATA);
+  const {
+    fileTree,
+    setFileTree,
+    updateFileContent,
+    resetFileTree,
+    structureHistory,
+    canUndoContent,
+    canRedoContent,
+    undoContent,
+    redoContent
+  } = useFileHistory();
   const [selectedFile, setSelectedFile] = useState<FileNode | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
   const [githubToken, setGithubToken] = useState('');
   const [huggingfaceToken, setHuggingfaceToken] = useState('');
+  const [gitlabToken, setGitlabToken] = useState('');
+  const [gitlabUrl, setGitlabUrl] = useState(DEFAULT_GITLAB_URL);
+  const [giteaToken, setGiteaToken] = useState('');
+  const [giteaUrl, setGiteaUrl] = useState('');
 
-  const updateFileContent = (fileId: string, content: string) => {
-    const updateNode = (nodes: FileNode[]): FileNode[] => {
-      return nodes.map(node => {
-        if (node.id === fileId) {
-          return { ...node, content };
-        }
-        if (node.children) {
-          return { ...node, children: updateNode(node.children) };
-        }
-        return node;
-      });
-    };
-    setFileTree(updateNode(fileTree));
+  const restoreProject = useCallback((project: StoredProject) => {
+    setProjectName(project.name);
+    setMetadata(project.metadata || EMPTY_METADATA);
+    resetFileTree(project.fileTree);
+    setSelectedFile(null);
+  }, [resetFileTree]);
+  const {
+    status: saveStatus,
+    error: saveError,
+    notFound
+  } = useAutosave(projectId, projectName, metadata, fileTree, restoreProject);
+
+  // Placeholders such as {{project_name}} stay in the editor and are filled in for every export,
+  // in the files that opted in
+  const variables = useMemo(() => templateValues(projectName, metadata), [projectName, metadata]);
+  const resolvedTree = useMemo(() => resolveFileTree(fileTree, variables), [fileTree, variables]);
+
+  // Every export attempt snapshots the project, along with the paths it sends out
+  const snapshotBeforeExport = async (provider: ExportProvider, publishedFiles: string[]) => {
+    await createSnapshot(projectId, `Before ${provider.label}`, fileTree, true, publishedFiles);
   };
 
+  // The selection follows the tree, so undo and redo show up in the editor
+  const activeFile = selectedFile && findNode(fileTree, selectedFile.id);
+
+  // Ctrl+Z / Ctrl+Shift+Z outside text fields undo structural changes;
+  // the code editor handles its own shortcuts for text edits
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (!(e.ctrlKey || e.metaKey) || (key !== 'z' && key !== 'y')) return;
+      if ((e.target as HTMLElement).closest('input, textarea, [contenteditable="true"], [role="dialog"]')) return;
+
+      e.preventDefault();
+      if (e.shiftKey || key === 'y') {
+        structureHistory.redo();
+      } else {
+        structureHistory.undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [structureHistory]);
+
+  if (notFound || saveStatus === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50">
+        {notFound ? (
+          <div className="text-center">
+            <p className="text-xl text-gray-600 mb-4">This project does not exist or was deleted</p>
+            <Link to="/projects" className="text-blue-500 hover:text-blue-700 underline">
+              Back to all projects
+            </Link>
+          </div>
+        ) : (
+          <p className="text-gray-500">Loading project...</p>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
       <ProjectHeader 
         projectName={projectName} 
         setProjectName={setProjectName}
+        saveStatus={saveStatus}
+        saveError={saveError}
+        onOpenHistory={() => setShowHistory(true)}
+        onOpenDetails={() => setShowDetails(true)}
       />
       
       <div className="flex h-[calc(100vh-4rem)]">
@@ -71,8 +136,11 @@ const Index = () => {
           <FileExplorer 
             fileTree={fileTree}
             setFileTree={setFileTree}
-            selectedFile={selectedFile}
+            history={structureHistory}
+            selectedFile={activeFile}
             setSelectedFile={setSelectedFile}
+            githubToken={githubToken}
+            huggingfaceToken={huggingfaceToken}
           />
           
           <div className="border-t border-gray-200">
@@ -81,6 +149,14 @@ const Index = () => {
               setGithubToken={setGithubToken}
               huggingfaceToken={huggingfaceToken}
               setHuggingfaceToken={setHuggingfaceToken}
+              gitlabToken={gitlabToken}
+              setGitlabToken={setGitlabToken}
+              gitlabUrl={gitlabUrl}
+              setGitlabUrl={setGitlabUrl}
+              giteaToken={giteaToken}
+              setGiteaToken={setGiteaToken}
+              giteaUrl={giteaUrl}
+              setGiteaUrl={setGiteaUrl}
             />
           </div>
         </div>
@@ -88,18 +164,50 @@ const Index = () => {
         {/* Main Content */}
         <div className="flex-1 flex flex-col">
           <CodeEditor 
-            selectedFile={selectedFile}
+            selectedFile={activeFile}
             updateFileContent={updateFileContent}
+            canUndo={!!activeFile && canUndoContent(activeFile.id)}
+            canRedo={!!activeFile && canRedoContent(activeFile.id)}
+            onUndo={() => activeFile && undoContent(activeFile.id)}
+            onRedo={() => activeFile && redoContent(activeFile.id)}
+            templateValues={variables}
+            setTemplated={(fileId, templated) => setFileTree(
+              updateNode(fileTree, fileId, node => ({ ...node, templated })),
+              templated ? 'Fill in placeholders' : 'Keep placeholders'
+            )}
           />
           
           <ExportPanel 
             projectName={projectName}
-            fileTree={fileTree}
+            fileTree={resolvedTree}
             githubToken={githubToken}
             huggingfaceToken={huggingfaceToken}
+            gitlabToken={gitlabToken}
+            gitlabUrl={gitlabUrl}
+            giteaToken={giteaToken}
+            giteaUrl={giteaUrl}
+            onBeforeExport={snapshotBeforeExport}
           />
         </div>
       </div>
+
+      {showHistory && (
+        <SnapshotPanel
+          projectId={projectId}
+          fileTree={fileTree}
+          setFileTree={setFileTree}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showDetails && (
+        <ProjectDetailsDialog
+          projectName={projectName}
+          metadata={metadata}
+          onSave={setMetadata}
+          onClose={() => setShowDetails(false)}
+        />
+      )}
     </div>
   );
 };
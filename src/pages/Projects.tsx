@@ -0,0 +1,310 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Code, Copy, Edit, FolderOpen, LayoutTemplate, Plus, Search, Trash2 } from 'lucide-react';
+import { NewProjectDialog } from '@/components/NewProjectDialog';
+import { FileNode } from '@/pages/Index';
+import { toast } from '@/hooks/use-toast';
+import { countFiles } from '@/lib/fileTree';
+import {
+  StoredProject,
+  createProject,
+  createTemplate,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  renameProject
+} from '@/lib/projectStore';
+
+// Avoid handing out a name that is already taken, e.g. my-project-2
+const uniqueName = (base: string, projects: StoredProject[]) => {
+  const names = new Set(projects.map(project => project.name));
+  let name = base;
+  for (let i = 2; names.has(name); i++) {
+    name = `${base}-${i}`;
+  }
+  return name;
+};
+
+const showError = (title: string, error: unknown) => {
+  console.error(`${title}:`, error);
+  toast({
+    title,
+    description: error instanceof Error ? error.message : "Saved projects could not be read or written",
+    variant: "destructive",
+  });
+};
+
+const Projects = () => {
+  const navigate = useNavigate();
+  const [projects, setProjects] = useState<StoredProject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [tempName, setTempName] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<StoredProject | null>(null);
+  const [showNewProject, setShowNewProject] = useState(false);
+  const [templateSource, setTemplateSource] = useState<StoredProject | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [templateDescription, setTemplateDescription] = useState('');
+
+  useEffect(() => {
+    listProjects()
+      .then(setProjects)
+      .catch(error => showError("Could Not Load Projects", error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleCreate = async (name: string, fileTree: FileNode[]) => {
+    try {
+      const project = await createProject(name, fileTree);
+      navigate(`/projects/${project.id}`);
+    } catch (error) {
+      showError("Could Not Create Project", error);
+    }
+  };
+
+  const handleDuplicate = async (project: StoredProject) => {
+    try {
+      const copy = await duplicateProject(project, uniqueName(`${project.name}-copy`, projects));
+      setProjects(prev => [copy, ...prev]);
+      toast({
+        title: "Project Duplicated",
+        description: `Created "${copy.name}" from "${project.name}"`,
+      });
+    } catch (error) {
+      showError("Could Not Duplicate Project", error);
+    }
+  };
+
+  const startSaveAsTemplate = (project: StoredProject) => {
+    setTemplateSource(project);
+    setTemplateName(project.name);
+    setTemplateDescription('');
+  };
+
+  const handleSaveAsTemplate = async () => {
+    const project = templateSource;
+    const name = templateName.trim();
+    if (!project || !name) return;
+    setTemplateSource(null);
+    try {
+      await createTemplate(name, templateDescription.trim(), project.fileTree);
+      toast({
+        title: "Template Saved",
+        description: `"${name}" is now available when creating a new project`,
+      });
+    } catch (error) {
+      showError("Could Not Save Template", error);
+    }
+  };
+
+  const startRename = (project: StoredProject) => {
+    setRenamingId(project.id);
+    setTempName(project.name);
+  };
+
+  const handleRename = async (project: StoredProject) => {
+    setRenamingId(null);
+    const name = tempName.trim();
+    if (!name || name === project.name) return;
+    try {
+      const renamed = await renameProject(project, name);
+      setProjects(prev => [renamed, ...prev.filter(existing => existing.id !== project.id)]);
+    } catch (error) {
+      showError("Could Not Rename Project", error);
+    }
+  };
+
+  const handleDelete = async () => {
+    const project = pendingDelete;
+    setPendingDelete(null);
+    if (!project) return;
+    try {
+      await deleteProject(project.id);
+      setProjects(prev => prev.filter(existing => existing.id !== project.id));
+      toast({
+        title: "Project Deleted",
+        description: `"${project.name}" has been removed from this browser`,
+      });
+    } catch (error) {
+      showError("Could Not Delete Project", error);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleProjects = projects.filter(project => project.name.toLowerCase().includes(query));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <header className="h-16 bg-white border-b border-gray-200 flex items-center justify-between px-6">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg">
+            <Code className="h-6 w-6 text-white" />
+          </div>
+          <h1 className="text-xl font-bold text-gray-900">Projects</h1>
+        </div>
+
+        <div className="text-sm text-gray-500">
+          File Structure Builder
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-6 space-y-4">
+        <div className="flex items-center space-x-2">
+          <div className="relative flex-1">
+            <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search projects"
+              className="pl-9"
+            />
+          </div>
+          <Button onClick={() => setShowNewProject(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Project
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-gray-500 py-12">Loading projects...</p>
+        ) : visibleProjects.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">
+            {projects.length === 0 ? 'No projects yet. Create one to get started.' : `No projects match "${search}"`}
+          </p>
+        ) : (
+          <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+            {visibleProjects.map(project => (
+              <div key={project.id} className="flex items-center justify-between px-4 py-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <FolderOpen className="h-5 w-5 text-blue-500 shrink-0" />
+                  {renamingId === project.id ? (
+                    <Input
+                      value={tempName}
+                      onChange={(e) => setTempName(e.target.value)}
+                      onBlur={() => handleRename(project)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename(project);
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      className="h-8"
+                      autoFocus
+                    />
+                  ) : (
+                    <div className="min-w-0">
+                      <Link to={`/projects/${project.id}`} className="font-medium text-gray-900 hover:underline truncate block">
+                        {project.name}
+                      </Link>
+                      <div className="text-xs text-gray-500">
+                        {countFiles(project.fileTree)} files · updated {new Date(project.updatedAt).toLocaleString()}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-1 shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => startRename(project)} title="Rename" className="p-1 h-8 w-8">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDuplicate(project)} title="Duplicate" className="p-1 h-8 w-8">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => startSaveAsTemplate(project)}
+                    title="Save as template"
+                    className="p-1 h-8 w-8"
+                  >
+                    <LayoutTemplate className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPendingDelete(project)}
+                    title="Delete"
+                    className="p-1 h-8 w-8 text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {showNewProject && (
+        <NewProjectDialog
+          defaultName={uniqueName('my-project', projects)}
+          onCreate={handleCreate}
+          onClose={() => setShowNewProject(false)}
+        />
+      )}
+
+      <Dialog open={!!templateSource} onOpenChange={(open) => !open && setTemplateSource(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Save as Template</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Template Name</Label>
+              <Input id="template-name" value={templateName} onChange={(e) => setTemplateName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description</Label>
+              <Input
+                id="template-description"
+                value={templateDescription}
+                onChange={(e) => setTemplateDescription(e.target.value)}
+                placeholder="What this template is for"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setTemplateSource(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveAsTemplate} disabled={!templateName.trim()}>
+              Save Template
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project and all of its files are removed from this browser. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Projects;